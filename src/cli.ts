@@ -0,0 +1,347 @@
+#!/usr/bin/env node
+import * as fs from 'fs';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import {
+    SolidFinding,
+    SolidThresholds,
+    DEFAULT_SOLID_THRESHOLDS,
+    SOLID_PRINCIPLES,
+    SOLID_RULE_DESCRIPTIONS,
+    getSolidLanguageId,
+    resolveSolidThresholds
+} from './solid';
+import { SarifLog, SarifRun, SARIF_SCHEMA } from './sarif';
+
+type OutputFormat = 'text' | 'json' | 'sarif';
+
+interface CliOptions {
+    paths: string[];
+    format: OutputFormat;
+    configPath: string | null;
+    principles: string[] | null;
+    maxViolations: number;
+}
+
+interface CliConfig {
+    thresholds: SolidThresholds;
+    principles: string[];
+    languages: string[];
+}
+
+interface FileReport {
+    path: string;
+    findings: SolidFinding[];
+}
+
+export class UsageError extends Error {}
+
+const SETTINGS_PREFIX = 'semgrepOffline.';
+const DEFAULT_CONFIG_PATH = path.join('.vscode', 'settings.json');
+const OUTPUT_FORMATS: OutputFormat[] = ['text', 'json', 'sarif'];
+
+const SKIPPED_DIRECTORIES = ['node_modules', '__pycache__', 'venv', 'env', 'out', 'dist'];
+
+const USAGE = `Usage: semgrep-offline-solid [options] <paths...>
+
+Runs the SRP, OCP, DIP and ISP checks of the Semgrep Offline extension on files
+and directories, and exits with status 1 when violations exceed the limit.
+
+Options:
+  --format <text|json|sarif>  Output format (default: text)
+  --config <file>             Settings file with semgrepOffline.* thresholds
+                              (default: .vscode/settings.json when present)
+  --principles <list>         Comma-separated checks to run, e.g. SRP,DIP
+                              (default: the checks enabled in the config file,
+                              or all four when it enables none)
+  --max-violations <n>        Number of violations allowed before failing (default: 0)
+  -h, --help                  Show this help
+
+Exit status: 0 when within the limit, 1 when violations exceed it, 2 on usage errors.`;
+
+export function parseArgs(argv: string[]): CliOptions | null {
+    const options: CliOptions = { paths: [], format: 'text', configPath: null, principles: null, maxViolations: 0 };
+    
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        const [flag, inlineValue] = arg.startsWith('--') && arg.includes('=') ? [arg.slice(0, arg.indexOf('=')), arg.slice(arg.indexOf('=') + 1)] : [arg, undefined];
+        const value = (): string => {
+            const next = inlineValue ?? argv[++i];
+            if (next === undefined) {
+                throw new UsageError(`Missing value for ${flag}`);
+            }
+            return next;
+        };
+        
+        switch (flag) {
+            case '-h':
+            case '--help':
+                return null;
+            case '--format': {
+                const format = value() as OutputFormat;
+                if (!OUTPUT_FORMATS.includes(format)) {
+                    throw new UsageError(`Unknown format "${format}", expected one of ${OUTPUT_FORMATS.join(', ')}`);
+                }
+                options.format = format;
+                break;
+            }
+            case '--config':
+                options.configPath = value();
+                break;
+            case '--principles': {
+                const principles = value().split(',').map(p => p.trim().toUpperCase()).filter(Boolean);
+                const unknown = principles.filter(p => !SOLID_PRINCIPLES.some(c => c.principle === p));
+                if (unknown.length > 0) {
+                    throw new UsageError(`Unknown principle(s): ${unknown.join(', ')}`);
+                }
+                options.principles = principles;
+                break;
+            }
+            case '--max-violations': {
+                const maxViolations = Number(value());
+                if (!Number.isInteger(maxViolations) || maxViolations < 0) {
+                    throw new UsageError('--max-violations expects a non-negative integer');
+                }
+                options.maxViolations = maxViolations;
+                break;
+            }
+            default:
+                if (flag.startsWith('-')) {
+                    throw new UsageError(`Unknown option ${flag}`);
+                }
+                options.paths.push(arg);
+        }
+    }
+    
+    if (options.paths.length === 0) {
+        throw new UsageError('No paths given');
+    }
+    return options;
+}
+
+export function stripJsonComments(text: string): string {
+    let result = '';
+    let inString = false;
+    
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (inString) {
+            result += char;
+            if (char === '\\') {
+                result += text[++i] ?? '';
+            } else if (char === '"') {
+                inString = false;
+            }
+        } else if (char === '"') {
+            inString = true;
+            result += char;
+        } else if (char === '/' && text[i + 1] === '/') {
+            while (i < text.length && text[i] !== '\n') {
+                i++;
+            }
+            result += '\n';
+        } else if (char === '/' && text[i + 1] === '*') {
+            const end = text.indexOf('*/', i + 2);
+            i = end < 0 ? text.length : end + 1;
+        } else {
+            result += char;
+        }
+    }
+    
+    return result.replace(/,(\s*[}\]])/g, '$1');
+}
+
+export function loadConfig(configPath: string | null): CliConfig {
+    const config: CliConfig = { thresholds: { ...DEFAULT_SOLID_THRESHOLDS }, principles: [], languages: ['python'] };
+    const file = configPath ?? (fs.existsSync(DEFAULT_CONFIG_PATH) ? DEFAULT_CONFIG_PATH : null);
+    if (!file) {
+        config.principles = SOLID_PRINCIPLES.map(c => c.principle);
+        return config;
+    }
+    
+    let settings: Record<string, unknown>;
+    try {
+        settings = JSON.parse(stripJsonComments(fs.readFileSync(file, 'utf8')));
+    } catch (error) {
+        throw new UsageError(`Could not read config file ${file}: ${error instanceof Error ? error.message : error}`);
+    }
+    const get = (key: string): unknown => settings[`${SETTINGS_PREFIX}${key}`] ?? settings[key];
+    
+    config.thresholds = resolveSolidThresholds(get);
+    
+    const enabled = SOLID_PRINCIPLES.filter(c => get(c.setting) === true).map(c => c.principle);
+    config.principles = enabled.length > 0 ? enabled : SOLID_PRINCIPLES.map(c => c.principle);
+    
+    const languages = get('languages');
+    if (Array.isArray(languages)) {
+        config.languages = languages.filter((l): l is string => typeof l === 'string');
+    }
+    return config;
+}
+
+function collectFiles(inputPath: string, languages: string[], files: Set<string>): void {
+    let stat: fs.Stats;
+    try {
+        stat = fs.statSync(inputPath);
+    } catch {
+        throw new UsageError(`Path not found: ${inputPath}`);
+    }
+    
+    if (stat.isFile()) {
+        if (getSolidLanguageId(inputPath)) {
+            files.add(path.resolve(inputPath));
+        }
+        return;
+    }
+    
+    for (const entry of fs.readdirSync(inputPath, { withFileTypes: true })) {
+        const entryPath = path.join(inputPath, entry.name);
+        if (entry.isDirectory()) {
+            if (!entry.name.startsWith('.') && !SKIPPED_DIRECTORIES.includes(entry.name)) {
+                collectFiles(entryPath, languages, files);
+            }
+        } else if (entry.isFile()) {
+            const languageId = getSolidLanguageId(entry.name);
+            if (languageId && languages.includes(languageId)) {
+                files.add(path.resolve(entryPath));
+            }
+        }
+    }
+}
+
+function analyzeFile(filePath: string, config: CliConfig, principles: string[]): FileReport {
+    const text = fs.readFileSync(filePath, 'utf8').replace(/\r\n/g, '\n');
+    const languageId = getSolidLanguageId(filePath)!;
+    const findings = SOLID_PRINCIPLES
+        .filter(c => principles.includes(c.principle))
+        .flatMap(c => c.analyze(text, languageId, filePath, config.thresholds).findings);
+    return { path: path.relative(process.cwd(), filePath).split(path.sep).join('/'), findings };
+}
+
+function formatText(reports: FileReport[], violationCount: number, maxViolations: number): string {
+    const lines: string[] = [];
+    for (const report of reports) {
+        for (const finding of report.findings) {
+            lines.push(`${report.path}:${finding.line + 1}: [${finding.source} ${finding.code}] ${finding.message}`);
+        }
+    }
+    const fileCount = reports.filter(r => r.findings.length > 0).length;
+    lines.push(`${violationCount} SOLID violation(s) in ${fileCount} file(s), ${reports.length} file(s) analyzed (limit: ${maxViolations})`);
+    return lines.join('\n');
+}
+
+function formatJson(reports: FileReport[], config: CliConfig, principles: string[], violationCount: number): string {
+    const byPrinciple: Record<string, number> = {};
+    for (const check of SOLID_PRINCIPLES.filter(c => principles.includes(c.principle))) {
+        byPrinciple[check.principle] = reports.reduce((count, r) => count + r.findings.filter(f => f.source === check.source).length, 0);
+    }
+    
+    return JSON.stringify({
+        thresholds: config.thresholds,
+        principles,
+        summary: { files: reports.length, violations: violationCount, byPrinciple },
+        results: reports.flatMap(report => report.findings.map(finding => ({
+            path: report.path,
+            line: finding.line + 1,
+            source: finding.source,
+            code: finding.code,
+            message: finding.message,
+            metrics: finding.metrics
+        })))
+    }, null, 2);
+}
+
+function formatSarif(reports: FileReport[], principles: string[]): string {
+    const version = getPackageVersion();
+    const runs: SarifRun[] = SOLID_PRINCIPLES.filter(c => principles.includes(c.principle)).map(check => {
+        const findings = reports.flatMap(report => report.findings
+            .filter(f => f.source === check.source)
+            .map(finding => ({ path: report.path, finding })));
+        const ruleIds = [...new Set(findings.map(f => f.finding.code))];
+        
+        return {
+            tool: {
+                driver: {
+                    name: check.source,
+                    fullName: `Semgrep Offline SOLID ${check.principle} check`,
+                    version,
+                    rules: ruleIds.map(id => ({
+                        id,
+                        name: id,
+                        shortDescription: { text: SOLID_RULE_DESCRIPTIONS[id] || id },
+                        defaultConfiguration: { level: 'warning' },
+                        properties: { tags: ['solid', check.principle] }
+                    }))
+                }
+            },
+            originalUriBaseIds: { '%SRCROOT%': { uri: `${pathToFileURL(process.cwd()).toString()}/` } },
+            results: findings.map(({ path: filePath, finding }) => ({
+                ruleId: finding.code,
+                ruleIndex: ruleIds.indexOf(finding.code),
+                level: 'warning',
+                message: { text: finding.message },
+                locations: [{
+                    physicalLocation: {
+                        artifactLocation: { uri: filePath, uriBaseId: '%SRCROOT%' },
+                        region: { startLine: finding.line + 1 }
+                    }
+                }],
+                properties: finding.metrics
+            }))
+        };
+    });
+    
+    const log: SarifLog = { $schema: SARIF_SCHEMA, version: '2.1.0', runs };
+    return JSON.stringify(log, null, 2);
+}
+
+function getPackageVersion(): string | undefined {
+    try {
+        return JSON.parse(fs.readFileSync(path.join(__dirname, '..', 'package.json'), 'utf8')).version;
+    } catch {
+        return undefined;
+    }
+}
+
+export function main(argv: string[]): number {
+    try {
+        const options = parseArgs(argv);
+        if (!options) {
+            console.log(USAGE);
+            return 0;
+        }
+        
+        const config = loadConfig(options.configPath);
+        const files = new Set<string>();
+        for (const inputPath of options.paths) {
+            collectFiles(inputPath, config.languages, files);
+        }
+        
+        const principles = options.principles ?? config.principles;
+        const reports = [...files].sort().map(file => analyzeFile(file, config, principles));
+        const violationCount = reports.reduce((count, r) => count + r.findings.length, 0);
+        
+        switch (options.format) {
+            case 'json':
+                console.log(formatJson(reports, config, principles, violationCount));
+                break;
+            case 'sarif':
+                console.log(formatSarif(reports, principles));
+                break;
+            default:
+                console.log(formatText(reports, violationCount, options.maxViolations));
+        }
+        
+        return violationCount > options.maxViolations ? 1 : 0;
+    } catch (error) {
+        console.error(`semgrep-offline-solid: ${error instanceof Error ? error.message : error}`);
+        if (error instanceof UsageError) {
+            console.error('Run with --help for usage.');
+        }
+        return 2;
+    }
+}
+
+if (require.main === module) {
+    process.exitCode = main(process.argv.slice(2));
+}
@@ -1,126 +1,360 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
 import { spawn, ChildProcess } from 'child_process';
 import * as crypto from 'crypto';
+import {
+    LCOM4Result,
+    OCPResult,
+    DIPResult,
+    ISPResult,
+    SolidFinding,
+    SolidScore,
+    SolidThresholds,
+    DEFAULT_SOLID_THRESHOLDS,
+    SOLID_LANGUAGE_EXTENSIONS,
+    SOLID_PRINCIPLES,
+    SOLID_SUPPRESSION_PATTERN,
+    SOLID_RULE_DESCRIPTIONS,
+    getSolidLanguageId,
+    resolveSolidThresholds,
+    analyzeSingleResponsibility,
+    analyzeOpenClosed,
+    analyzeDependencyInversion,
+    analyzeInterfaceSegregation,
+    generateSRPPrompt,
+    generateOCPPrompt,
+    generateDIPPrompt,
+    generateISPPrompt
+} from './solid';
+import { SarifRule, SarifRun, SarifLog, SARIF_SCHEMA } from './sarif';
 
-interface ClassInfo {
-    name: string;
-    startLine: number;
-    endLine: number;
-    methods: MethodInfo[];
-    instanceVariables: Set<string>;
+interface SemgrepResult {
+    results: SemgrepFinding[];
+    errors: SemgrepError[];
 }
 
-interface MethodInfo {
-    name: string;
-    startLine: number;
-    endLine: number;
-    usedVariables: Set<string>;
-    calledMethods: Set<string>;
-    callsSuper: boolean;
-    isStub: boolean;
-    stubType: 'none' | 'pass' | 'not_implemented';
+interface SemgrepFinding {
+    check_id: string;
+    path: string;
+    start: { line: number; col: number };
+    end: { line: number; col: number };
+    extra: {
+        message: string;
+        severity: string;
+        metadata?: Record<string, unknown>;
+        lines?: string;
+        fix?: string;
+        fix_regex?: SemgrepFixRegex;
+    };
 }
 
-interface LCOM4Result {
-    className: string;
-    lcom4Value: number;
-    connectedComponents: string[][];
-    suggestion: string;
-    excludedMethods: string[];
-    excludeReasons: Record<string, string>;
+interface SemgrepFixRegex {
+    regex: string;
+    replacement: string;
+    count?: number;
 }
 
-interface OCPViolation {
+interface BaselineEntry {
+    fingerprint: string;
+    path: string;
+    ruleId: string;
+    symbol: string;
     line: number;
-    type: 'instanceof' | 'type_equality' | 'type_field' | 'typeof';
-    code: string;
+    message: string;
 }
 
-interface OCPResult {
-    className: string;
-    methodName: string;
-    startLine: number;
-    tcd: number;
-    tfsc: number;
-    ocpScore: number;
-    violations: OCPViolation[];
-    suggestion: string;
+interface BaselineFile {
+    version: number;
+    createdAt: string;
+    findings: BaselineEntry[];
 }
 
-interface DIPViolation {
-    line: number;
-    type: 'constructor_instantiation' | 'method_instantiation' | 'no_injection' | 'concrete_parameter';
-    code: string;
-    className: string;
+interface FindingEntry {
+    uri: vscode.Uri;
+    diagnostic: vscode.Diagnostic;
 }
 
-interface DIPResult {
-    className: string;
-    startLine: number;
-    constructorInstantiations: number;
-    methodInstantiations: number;
-    injectedDependencies: number;
-    totalDependencies: number;
-    dii: number;
-    dipScore: number;
-    violations: DIPViolation[];
-    suggestion: string;
+interface FindingsGroupNode {
+    kind: 'group';
+    label: string;
+    findings: FindingEntry[];
 }
 
-interface ISPViolation {
-    line: number;
-    type: 'fat_interface' | 'empty_implementation' | 'not_implemented_error';
-    methodName: string;
-    code: string;
+interface FindingNode {
+    kind: 'finding';
+    entry: FindingEntry;
 }
 
-interface ISPResult {
-    className: string;
-    startLine: number;
-    isInterface: boolean;
-    abstractMethodCount: number;
-    emptyImplementations: number;
-    notImplementedErrors: number;
-    ifs: number;
-    sir: number;
-    ispScore: number;
-    violations: ISPViolation[];
-    suggestion: string;
+type FindingsTreeNode = FindingsGroupNode | FindingNode;
+
+type FindingsGroupBy = 'rule' | 'file' | 'severity' | 'category' | 'principle';
+
+interface SolidWorkspaceScore extends SolidScore {
+    uri: vscode.Uri;
 }
 
-interface SemgrepResult {
-    results: SemgrepFinding[];
-    errors: SemgrepError[];
+interface SolidWorkspaceSummary {
+    files: number;
+    violations: number;
+    filesWithViolations: number;
+    scores: Map<string, SolidWorkspaceScore[]>;
 }
 
-interface SemgrepFinding {
-    check_id: string;
+interface SolidMetrics {
+    srp?: LCOM4Result[];
+    ocp?: OCPResult[];
+    dip?: DIPResult[];
+    isp?: ISPResult[];
+}
+
+interface EngineTarget {
     path: string;
+    text?: string;
+    languageId?: string;
+}
+
+interface AnalysisEngine {
+    id: string;
+    setting: string;
+    informationUri: string;
+    languages: string[] | null;
+    getExecutable: (config: SemgrepConfig) => string;
+    getContextKey: (config: SemgrepConfig) => Promise<string>;
+    run: (config: SemgrepConfig, targets: EngineTarget[], token: vscode.CancellationToken) => Promise<SemgrepResult>;
+    reportErrors?: (results: SemgrepResult, config: SemgrepConfig) => boolean;
+}
+
+interface BanditIssue {
+    filename: string;
+    test_id: string;
+    test_name?: string;
+    issue_text: string;
+    issue_severity: string;
+    issue_confidence?: string;
+    issue_cwe?: { id?: number; link?: string };
+    line_number: number;
+    line_range?: number[];
+    col_offset?: number;
+    end_col_offset?: number;
+    more_info?: string;
+    code?: string;
+}
+
+interface BanditOutput {
+    results?: BanditIssue[];
+    errors?: { filename: string; reason: string }[];
+}
+
+interface RuffDiagnostic {
+    code: string | null;
+    message: string;
+    filename: string;
+    location: { row: number; column: number };
+    end_location: { row: number; column: number };
+    url?: string | null;
+}
+
+interface ImportedFileResults {
+    hash: string | null;
+    diagnostics: vscode.Diagnostic[];
+}
+
+interface ImportedResults {
+    origin: string;
+    files: Map<string, ImportedFileResults>;
+}
+
+interface Suppression {
+    uri: vscode.Uri;
+    line: number;
+    marker: string;
+    reason: string;
+}
+
+interface SemgrepFix {
+    checkId: string;
+    fix?: string;
+    fixRegex?: SemgrepFixRegex;
+}
+
+interface SemgrepError {
+    message: string;
+    level: string;
+    code?: number;
+    type?: string | unknown[];
+    path?: string;
+    rule_id?: string;
+    spans?: SemgrepErrorSpan[];
+}
+
+interface SemgrepErrorSpan {
+    file: string;
     start: { line: number; col: number };
     end: { line: number; col: number };
-    extra: {
-        message: string;
-        severity: string;
-        metadata?: Record<string, unknown>;
-        lines?: string;
+}
+
+interface LineRange {
+    start: number;
+    end: number;
+}
+
+interface DiffInfo {
+    baseRef: string;
+    files: Map<string, LineRange[] | 'all'>;
+}
+
+interface SemgrepConfig {
+    semgrepPath: string;
+    banditPath: string;
+    ruffPath: string;
+    ruffSelect: string[];
+    rulesPaths: string[];
+    useCache: boolean;
+    enableSecurityRules: boolean;
+    workspaceFolder: string;
+    include: string[];
+    exclude: string[];
+    respectIgnoreFiles: boolean;
+    maxFileSize: number;
+    jobs: number;
+    ruleTimeout: number;
+    maxMemory: number;
+}
+
+interface ToolInstallation {
+    path: string;
+    source: string;
+}
+
+interface PythonEnvironmentPath {
+    id: string;
+    path: string;
+}
+
+interface PythonExtensionApi {
+    environments?: {
+        getActiveEnvironmentPath(resource?: vscode.Uri): PythonEnvironmentPath;
+        resolveEnvironment(environment: PythonEnvironmentPath | string): Promise<{ executable: { uri?: vscode.Uri } } | undefined>;
+        onDidChangeActiveEnvironmentPath: vscode.Event<unknown>;
+    };
+    settings?: {
+        getExecutionDetails(resource?: vscode.Uri): { execCommand?: string[] };
     };
 }
 
-interface SemgrepError {
+interface ScanTarget {
+    targetPath: string;
+    cleanup: () => Promise<void>;
+}
+
+interface CachedScan {
+    key: string;
+    findings: SemgrepFinding[];
+}
+
+interface PendingScan {
+    document: vscode.TextDocument;
+    force: boolean;
+}
+
+interface BatchEntry {
+    document: vscode.TextDocument;
+    version: number;
+    text: string;
+    target: ScanTarget;
+}
+
+interface InFlightScan {
+    entries: BatchEntry[];
+    tokenSource: vscode.CancellationTokenSource;
+}
+
+interface LspPosition {
+    line: number;
+    character: number;
+}
+
+interface LspDiagnostic {
+    range: { start: LspPosition; end: LspPosition };
     message: string;
-    level: string;
+    severity?: number;
+    code?: string | number;
+    data?: { fix?: string };
+}
+
+interface LspMessage {
+    id?: number;
+    method?: string;
+    params?: unknown;
+    result?: unknown;
+    error?: { message: string };
+}
+
+interface LspPublishDiagnosticsParams {
+    uri: string;
+    diagnostics?: LspDiagnostic[];
+}
+
+interface SemgrepServerState {
+    process: ChildProcess;
+    configKey: string;
+    workspaceFolder: string;
+    buffer: Buffer;
+    nextRequestId: number;
+    pendingRequests: Map<number, { resolve: (value: unknown) => void; reject: (error: Error) => void }>;
+    diagnosticWaiters: Map<string, (diagnostics: LspDiagnostic[]) => void>;
+    ready: Promise<void>;
+    stopping: boolean;
+    exited: boolean;
 }
 
 let diagnosticCollection: vscode.DiagnosticCollection;
+const allDiagnostics = new Map<string, vscode.Diagnostic[]>();
+let rulesDiagnosticCollection: vscode.DiagnosticCollection;
+const rulesDiagnosticUris = new Map<string, vscode.Uri[]>();
 let outputChannel: vscode.OutputChannel;
 let statusBarItem: vscode.StatusBarItem;
 const debounceTimers = new Map<string, NodeJS.Timeout>();
-const fileHashCache = new Map<string, string>();
-let semgrepProcess: ChildProcess | null = null;
+let rulesWatchers: vscode.FileSystemWatcher[] = [];
+const ignoreGlobCache = new Map<string, string[]>();
+const baselineCache = new Map<string, Map<string, Map<string, number>> | null>();
+let baselineWatchers: vscode.FileSystemWatcher[] = [];
+const findingsTreeEmitter = new vscode.EventEmitter<FindingsTreeNode | undefined>();
+let findingsGroupBy: FindingsGroupBy = 'rule';
+let findingsFilter = '';
+const diffInfoCache = new Map<string, DiffInfo>();
+const diffWarningsShown = new Set<string>();
+let scanCache = new Map<string, Record<string, CachedScan>>();
+let workspaceState: vscode.Memento | undefined;
+const toolVersions = new Map<string, Promise<string>>();
+const scanProcesses = new Set<ChildProcess>();
+const activeScanSources = new Set<vscode.CancellationTokenSource>();
+let inFlightScan: InFlightScan | null = null;
+const semgrepServers = new Map<string, SemgrepServerState>();
+let serverCrashCount = 0;
 let isScanning = false;
-const scanQueue: vscode.TextDocument[] = [];
+const scanQueue = new Map<string, PendingScan>();
 let extensionPath: string = '';
+let extensionVersion: string = '';
+const semgrepFixes = new WeakMap<vscode.Diagnostic, SemgrepFix>();
+const semgrepErrorDiagnostics = new WeakSet<vscode.Diagnostic>();
+const diagnosticFindings = new WeakMap<vscode.Diagnostic, SemgrepFinding>();
+const diagnosticPrompts = new WeakMap<vscode.Diagnostic, string>();
+const diagnosticMetrics = new WeakMap<vscode.Diagnostic, Record<string, number>>();
+const solidMetrics = new Map<string, SolidMetrics>();
+const importedResults = new Map<string, ImportedResults>();
+const contentHashes = new Map<string, string | null>();
+const watchedImportPaths = new Set<string>();
+let importWatchers: vscode.FileSystemWatcher[] = [];
+const solidCodeLensEmitter = new vscode.EventEmitter<void>();
+const bundledRuleIds = new Set<string>();
+let ruleIndex: Map<string, vscode.Location> | null = null;
+const pendingFixActions = new WeakMap<vscode.CodeAction, { uri: vscode.Uri; diagnostics: vscode.Diagnostic[] }[]>();
+const toolInstallations = new Map<string, ToolInstallation>();
+const pythonInterpreters = new Map<string, string>();
+const reportedSetupIssues = new Set<string>();
 
 function debounce(key: string, fn: () => void, delay: number): void {
     const existingTimer = debounceTimers.get(key);
@@ -138,17 +372,123 @@ function getFileHash(content: string): string {
     return crypto.createHash('md5').update(content).digest('hex');
 }
 
+function getCacheKey(content: string, contextKey: string): string {
+    return `${getFileHash(content)}:${contextKey}`;
+}
+
+async function getScanContextKey(executable: string, rulesPaths: string[], options: string[] = []): Promise<string> {
+    const hash = crypto.createHash('md5');
+    hash.update(await getToolVersion(executable));
+    hash.update(options.join(','));
+    for (const rulesPath of rulesPaths) {
+        hash.update(rulesPath);
+        await hashRulesPath(hash, rulesPath);
+    }
+    return hash.digest('hex');
+}
+
+async function hashRulesPath(hash: crypto.Hash, rulesPath: string): Promise<void> {
+    try {
+        const stat = await fs.promises.stat(rulesPath);
+        if (stat.isDirectory()) {
+            const entries = await fs.promises.readdir(rulesPath);
+            for (const entry of entries.sort()) {
+                const entryPath = path.join(rulesPath, entry);
+                if (/\.ya?ml$/.test(entry) || (await fs.promises.stat(entryPath)).isDirectory()) {
+                    hash.update(entry);
+                    await hashRulesPath(hash, entryPath);
+                }
+            }
+        } else {
+            hash.update(await fs.promises.readFile(rulesPath));
+        }
+    } catch {
+        hash.update('missing');
+    }
+}
+
+function getToolVersion(executable: string): Promise<string> {
+    let version = toolVersions.get(executable);
+    if (!version) {
+        version = new Promise((resolve) => {
+            let stdout = '';
+            const proc = spawn(executable, ['--version']);
+            proc.stdout.on('data', (data) => {
+                stdout += data.toString();
+            });
+            proc.on('close', () => resolve(stdout.trim() || 'unknown'));
+            proc.on('error', () => resolve('unknown'));
+        });
+        toolVersions.set(executable, version);
+    }
+    return version;
+}
+
+function restoreCachedScan(document: vscode.TextDocument, engine: AnalysisEngine, contextKey: string): boolean {
+    const cached = scanCache.get(document.uri.toString())?.[engine.id];
+    if (!cached || cached.key !== getCacheKey(document.getText(), contextKey)) {
+        return false;
+    }
+    
+    const existingDiagnostics = getDiagnostics(document.uri);
+    const otherDiagnostics = existingDiagnostics.filter(d => d.source !== engine.id);
+    setDiagnostics(document.uri, [...cached.findings.map(f => createDiagnostic(f, engine.id)), ...otherDiagnostics]);
+    return true;
+}
+
+function updateScanCache(uri: vscode.Uri, engineId: string | null, entry: CachedScan | null): void {
+    const key = uri.toString();
+    const entries = engineId ? { ...scanCache.get(key) } : {};
+    scanCache.delete(key);
+    if (engineId && entry) {
+        entries[engineId] = entry;
+    } else if (engineId) {
+        delete entries[engineId];
+    }
+    if (Object.keys(entries).length > 0) {
+        scanCache.set(key, entries);
+        while (scanCache.size > MAX_CACHE_ENTRIES) {
+            scanCache.delete(scanCache.keys().next().value!);
+        }
+    }
+    debounce(SCAN_CACHE_STATE_KEY, persistScanCache, 1000);
+}
+
+function clearScanCache(): void {
+    scanCache.clear();
+    persistScanCache();
+}
+
+function persistScanCache(): void {
+    if (!workspaceState) {
+        return;
+    }
+    const persisted: Record<string, Record<string, CachedScan>> = {};
+    for (const [key, entry] of scanCache) {
+        if (vscode.Uri.parse(key).scheme === 'file') {
+            persisted[key] = entry;
+        }
+    }
+    workspaceState.update(SCAN_CACHE_STATE_KEY, persisted);
+}
+
 export function activate(context: vscode.ExtensionContext) {
     extensionPath = context.extensionPath;
+    extensionVersion = context.extension.packageJSON.version;
+    loadBundledRuleIds();
+    workspaceState = context.workspaceState;
+    scanCache = new Map(Object.entries(workspaceState.get<Record<string, Record<string, CachedScan>>>(SCAN_CACHE_STATE_KEY, {})));
     outputChannel = vscode.window.createOutputChannel('Semgrep Offline');
     diagnosticCollection = vscode.languages.createDiagnosticCollection('semgrep-offline');
+    rulesDiagnosticCollection = vscode.languages.createDiagnosticCollection('semgrep-offline-rules');
     
     statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 100);
     statusBarItem.text = '$(shield) Semgrep';
-    statusBarItem.tooltip = 'Semgrep Offline - Click to scan current file';
+    statusBarItem.tooltip = STATUS_TOOLTIP;
     statusBarItem.command = 'semgrep-offline.scanFile';
     
     context.subscriptions.push(diagnosticCollection);
+    context.subscriptions.push(rulesDiagnosticCollection);
     context.subscriptions.push(outputChannel);
     context.subscriptions.push(statusBarItem);
 
@@ -156,19 +496,7 @@ export function activate(context: vscode.ExtensionContext) {
         const editor = vscode.window.activeTextEditor;
         if (editor) {
             scanFile(editor.document, true);
-            const config = vscode.workspace.getConfiguration('semgrepOffline');
-            if (config.get<boolean>('enableSRP')) {
-                checkSingleResponsibility(editor.document, true);
-            }
-            if (config.get<boolean>('enableOCP')) {
-                checkOpenClosed(editor.document, true);
-            }
-            if (config.get<boolean>('enableDIP')) {
-                checkDependencyInversion(editor.document, true);
-            }
-            if (config.get<boolean>('enableISP')) {
-                checkInterfaceSegregation(editor.document, true);
-            }
+            runSolidChecks(editor.document);
         }
     });
 
@@ -176,9 +504,28 @@ export function activate(context: vscode.ExtensionContext) {
         scanWorkspace();
     });
 
+    const scanChangedFilesCommand = vscode.commands.registerCommand('semgrep-offline.scanChangedFiles', () => {
+        scanChangedFiles();
+    });
+
+    const cancelScanCommand = vscode.commands.registerCommand('semgrep-offline.cancelScan', () => {
+        cancelAllScans();
+    });
+
+    const checkSetupCommand = vscode.commands.registerCommand('semgrep-offline.checkSetup', () => {
+        checkSetup();
+    });
+
+    const createStarterRulesCommand = vscode.commands.registerCommand('semgrep-offline.createStarterRules', () => {
+        createStarterRules();
+    });
+
     const clearCommand = vscode.commands.registerCommand('semgrep-offline.clearDiagnostics', () => {
         diagnosticCollection.clear();
-        fileHashCache.clear();
+        allDiagnostics.clear();
+        importedResults.clear();
+        clearRulesDiagnostics();
+        clearScanCache();
         outputChannel.appendLine('Cleared all diagnostics and cache');
     });
 
@@ -210,2061 +557,4382 @@ export function activate(context: vscode.ExtensionContext) {
         }
     });
 
-    context.subscriptions.push(scanFileCommand, scanWorkspaceCommand, clearCommand, srpCheckCommand, ocpCheckCommand, dipCheckCommand, ispCheckCommand);
+    const analyzeSolidWorkspaceCommand = vscode.commands.registerCommand('semgrep-offline.analyzeSolidWorkspace', () => {
+        analyzeSolidWorkspace();
+    });
+
+    findingsGroupBy = workspaceState.get<FindingsGroupBy>(FINDINGS_GROUP_BY_STATE_KEY, 'rule');
+    const findingsView = vscode.window.createTreeView('semgrepOffline.findings', {
+        treeDataProvider: {
+            onDidChangeTreeData: findingsTreeEmitter.event,
+            getChildren: getFindingsTreeChildren,
+            getTreeItem: getFindingsTreeItem
+        },
+        showCollapseAll: true,
+        canSelectMany: true
+    });
+    context.subscriptions.push(findingsView, findingsTreeEmitter);
+    context.subscriptions.push(
+        vscode.languages.onDidChangeDiagnostics(() => {
+            debounce('findings-tree', () => {
+                findingsTreeEmitter.fire(undefined);
+                const total = getFindingEntries().length;
+                findingsView.badge = total > 0 ? { value: total, tooltip: `${total} finding(s)` } : undefined;
+            }, 300);
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('semgrep-offline.goToRuleDefinition', (uri?: vscode.Uri, checkId?: string) => {
+            goToRuleDefinition(uri, checkId);
+        }),
+        vscode.languages.registerHoverProvider(
+            SCANNABLE_SCHEMES.map(scheme => ({ scheme })),
+            { provideHover: provideFindingHover }
+        )
+    );
+
+    const findingsCommands = [
+        vscode.commands.registerCommand('semgrep-offline.findings.groupBy', () => pickFindingsGroupBy()),
+        vscode.commands.registerCommand('semgrep-offline.findings.filter', () => pickFindingsFilter(findingsView)),
+        vscode.commands.registerCommand('semgrep-offline.findings.clearFilter', () => setFindingsFilter('', findingsView)),
+        vscode.commands.registerCommand('semgrep-offline.findings.refresh', () => findingsTreeEmitter.fire(undefined)),
+        vscode.commands.registerCommand('semgrep-offline.findings.suppress', (node: FindingNode) => {
+            const suppression = getSuppressionMarker(node.entry.diagnostic);
+            if (suppression) {
+                suppressFinding(node.entry.uri, node.entry.diagnostic.range.start.line, suppression.marker);
+            }
+        }),
+        vscode.commands.registerCommand('semgrep-offline.findings.copyPrompt', (node: FindingNode) => {
+            copyAgentPrompt(getFindingPrompt(node.entry));
+        }),
+        vscode.commands.registerCommand('semgrep-offline.findings.openRule', (node: FindingNode) => {
+            openRuleDefinition(getDiagnosticCode(node.entry.diagnostic));
+        })
+    ];
+    context.subscriptions.push(...findingsCommands);
+
+    const createBaselineCommand = vscode.commands.registerCommand('semgrep-offline.createBaseline', () => {
+        createBaseline();
+    });
+
+    const updateBaselineCommand = vscode.commands.registerCommand('semgrep-offline.updateBaseline', () => {
+        updateBaseline();
+    });
+
+    const suppressFindingCommand = vscode.commands.registerCommand('semgrep-offline.suppressFinding', (uri: vscode.Uri, line: number, marker: string) => {
+        suppressFinding(uri, line, marker);
+    });
+
+    const listSuppressionsCommand = vscode.commands.registerCommand('semgrep-offline.listSuppressions', () => {
+        listSuppressions();
+    });
+
+    const exportSarifCommand = vscode.commands.registerCommand('semgrep-offline.exportSarif', () => {
+        exportSarif();
+    });
+
+    const importResultsCommand = vscode.commands.registerCommand('semgrep-offline.importResults', () => {
+        importResults();
+    });
+
+    const clearImportedResultsCommand = vscode.commands.registerCommand('semgrep-offline.clearImportedResults', () => {
+        clearImportedResults();
+    });
+
+    const rescanFixedFilesCommand = vscode.commands.registerCommand('semgrep-offline.rescanFixedFiles', (uris: vscode.Uri[]) => {
+        rescanFixedFiles(uris);
+    });
+
+    context.subscriptions.push(
+        vscode.languages.registerCodeActionsProvider(
+            SCANNABLE_SCHEMES.map(scheme => ({ scheme })),
+            { provideCodeActions: provideFixActions, resolveCodeAction: resolveFixAction },
+            { providedCodeActionKinds: [vscode.CodeActionKind.QuickFix, FIX_ALL_KIND] }
+        ),
+        vscode.languages.registerCodeActionsProvider(
+            SCANNABLE_SCHEMES.map(scheme => ({ scheme })),
+            { provideCodeActions: provideSuppressionActions },
+            { providedCodeActionKinds: [vscode.CodeActionKind.QuickFix] }
+        ),
+        vscode.languages.registerCodeActionsProvider(
+            SCANNABLE_SCHEMES.map(scheme => ({ scheme })),
+            { provideCodeActions: providePromptActions },
+            { providedCodeActionKinds: [vscode.CodeActionKind.QuickFix] }
+        ),
+        vscode.commands.registerCommand('semgrep-offline.copyAgentPrompt', (prompt: string) => copyAgentPrompt(prompt)),
+        vscode.commands.registerCommand('semgrep-offline.openAgentPrompt', (prompt: string) => openAgentPrompt(prompt)),
+        vscode.languages.registerCodeLensProvider(
+            SCANNABLE_SCHEMES.map(scheme => ({ scheme })),
+            { onDidChangeCodeLenses: solidCodeLensEmitter.event, provideCodeLenses: provideSolidCodeLenses }
+        ),
+        vscode.commands.registerCommand('semgrep-offline.showSolidMetrics', (uri: vscode.Uri, line: number) => showSolidMetrics(uri, line)),
+        solidCodeLensEmitter,
+        vscode.commands.registerCommand('semgrep-offline.buildCombinedPrompt', (node?: FindingsTreeNode, nodes?: readonly FindingsTreeNode[]) => {
+            buildCombinedPrompt(node, nodes);
+        })
+    );
+
+    context.subscriptions.push(createBaselineCommand, updateBaselineCommand, suppressFindingCommand, listSuppressionsCommand, exportSarifCommand, importResultsCommand, clearImportedResultsCommand, rescanFixedFilesCommand, scanFileCommand, scanWorkspaceCommand, scanChangedFilesCommand, cancelScanCommand, checkSetupCommand, createStarterRulesCommand, clearCommand, srpCheckCommand, ocpCheckCommand, dipCheckCommand, ispCheckCommand, analyzeSolidWorkspaceCommand);
 
     context.subscriptions.push(
-        vscode.workspace.onDidSaveTextDocument((document) => {
-            const config = vscode.workspace.getConfiguration('semgrepOffline');
+        vscode.workspace.onDidSaveTextDocument(async (document) => {
+            const config = getSettings(document.uri);
+            const folder = vscode.workspace.getWorkspaceFolder(document.uri);
+            if (folder && config.get<boolean>('diffAware')) {
+                await refreshDiffInfo(folder);
+            }
             const supportedLanguages = config.get<string[]>('languages') || ['python'];
             if (config.get<boolean>('scanOnSave') && shouldScanDocument(document, supportedLanguages)) {
                 scanFile(document, true);
-                if (config.get<boolean>('enableSRP')) {
-                    checkSingleResponsibility(document, true);
-                }
-                if (config.get<boolean>('enableOCP')) {
-                    checkOpenClosed(document, true);
-                }
-                if (config.get<boolean>('enableDIP')) {
-                    checkDependencyInversion(document, true);
-                }
-                if (config.get<boolean>('enableISP')) {
-                    checkInterfaceSegregation(document, true);
-                }
+                runSolidChecks(document);
             }
         })
     );
 
     context.subscriptions.push(
         vscode.workspace.onDidOpenTextDocument((document) => {
-            const config = vscode.workspace.getConfiguration('semgrepOffline');
+            const config = getSettings(document.uri);
             const supportedLanguages = config.get<string[]>('languages') || ['python'];
             if (config.get<boolean>('scanOnOpen') && shouldScanDocument(document, supportedLanguages)) {
                 scanFile(document, false);
-                if (config.get<boolean>('enableSRP')) {
-                    checkSingleResponsibility(document, true);
-                }
-                if (config.get<boolean>('enableOCP')) {
-                    checkOpenClosed(document, true);
-                }
-                if (config.get<boolean>('enableDIP')) {
-                    checkDependencyInversion(document, true);
-                }
-                if (config.get<boolean>('enableISP')) {
-                    checkInterfaceSegregation(document, true);
-                }
+                runSolidChecks(document);
             }
         })
     );
 
     context.subscriptions.push(
         vscode.workspace.onDidChangeTextDocument((event) => {
-            const config = vscode.workspace.getConfiguration('semgrepOffline');
-            const supportedLanguages = config.get<string[]>('languages') || ['python'];
             const document = event.document;
-            if (config.get<boolean>('scanOnChange') && shouldScanDocument(document, supportedLanguages) && event.contentChanges.length > 0) {
+            if (event.contentChanges.length > 0) {
+                contentHashes.delete(document.uri.toString());
+            }
+            if (event.contentChanges.length > 0 && solidMetrics.delete(document.uri.toString())) {
+                solidCodeLensEmitter.fire();
+            }
+            if (hasImportedDiagnostics(document.uri) && event.contentChanges.length > 0) {
+                debounce(`imported:${document.uri.toString()}`, () => showDiagnostics(document.uri, getDiagnostics(document.uri)), 500);
+            }
+            const config = getSettings(document.uri);
+            const supportedLanguages = config.get<string[]>('languages') || ['python'];
+            if (config.get<boolean>('scanOnChange') && isScannableLanguage(document, supportedLanguages) && event.contentChanges.length > 0) {
                 const debounceDelay = config.get<number>('scanOnChangeDelay') || 1500;
                 debounce(document.uri.toString(), () => {
-                    scanFile(document, false);
-                    if (config.get<boolean>('enableSRP')) {
-                        checkSingleResponsibility(document, true);
-                    }
-                    if (config.get<boolean>('enableOCP')) {
-                        checkOpenClosed(document, true);
-                    }
-                    if (config.get<boolean>('enableDIP')) {
-                        checkDependencyInversion(document, true);
-                    }
-                    if (config.get<boolean>('enableISP')) {
-                        checkInterfaceSegregation(document, true);
+                    if (!isDocumentIncluded(document)) {
+                        return;
                     }
+                    scanFile(document, false);
+                    runSolidChecks(document);
                 }, debounceDelay);
             }
         })
     );
 
     context.subscriptions.push(
-        vscode.window.onDidChangeActiveTextEditor((editor) => {
-            const config = vscode.workspace.getConfiguration('semgrepOffline');
-            const supportedLanguages = config.get<string[]>('languages') || ['python'];
-            if (editor && shouldScanDocument(editor.document, supportedLanguages)) {
-                statusBarItem.show();
-            } else {
-                statusBarItem.hide();
+        vscode.workspace.onDidChangeConfiguration((event) => {
+            handleConfigurationChange(event);
+        })
+    );
+
+    context.subscriptions.push({ dispose: disposeRulesWatchers });
+    setupRulesWatchers();
+
+    context.subscriptions.push({ dispose: disposeBaselineWatchers });
+    setupBaselineWatchers();
+
+    context.subscriptions.push({ dispose: disposeImportWatchers });
+    setupImportWatchers();
+
+    const ignoreFileWatcher = vscode.workspace.createFileSystemWatcher(`**/{${IGNORE_FILES.join(',')}}`);
+    ignoreFileWatcher.onDidChange(() => ignoreGlobCache.clear());
+    ignoreFileWatcher.onDidCreate(() => ignoreGlobCache.clear());
+    ignoreFileWatcher.onDidDelete(() => ignoreGlobCache.clear());
+    context.subscriptions.push(ignoreFileWatcher);
+
+    context.subscriptions.push(
+        vscode.workspace.onDidCloseTextDocument((document) => {
+            contentHashes.delete(document.uri.toString());
+            solidMetrics.delete(document.uri.toString());
+            if (document.uri.scheme === 'untitled') {
+                deleteDiagnostics(document.uri);
+                updateScanCache(document.uri, null, null);
             }
         })
     );
 
-    const initialConfig = vscode.workspace.getConfiguration('semgrepOffline');
-    const initialLanguages = initialConfig.get<string[]>('languages') || ['python'];
+    context.subscriptions.push(
+        vscode.window.onDidChangeActiveTextEditor(() => {
+            updateStatusBarVisibility();
+        })
+    );
+
     if (vscode.window.activeTextEditor) {
         const doc = vscode.window.activeTextEditor.document;
+        const initialConfig = getSettings(doc.uri);
+        const initialLanguages = initialConfig.get<string[]>('languages') || ['python'];
         if (shouldScanDocument(doc, initialLanguages)) {
             statusBarItem.show();
             if (initialConfig.get<boolean>('scanOnOpen')) {
                 scanFile(doc, false);
-                if (initialConfig.get<boolean>('enableSRP')) {
-                    checkSingleResponsibility(doc, true);
-                }
-                if (initialConfig.get<boolean>('enableOCP')) {
-                    checkOpenClosed(doc, true);
-                }
-                if (initialConfig.get<boolean>('enableDIP')) {
-                    checkDependencyInversion(doc, true);
-                }
-                if (initialConfig.get<boolean>('enableISP')) {
-                    checkInterfaceSegregation(doc, true);
-                }
+                runSolidChecks(doc);
             }
         }
     }
 
+    refreshPythonInterpreters(context).then(() => restartSemgrepServer());
+
+    for (const folder of vscode.workspace.workspaceFolders || []) {
+        if (getSettings(folder.uri).get<boolean>('diffAware')) {
+            refreshDiffInfo(folder);
+        }
+    }
+
     outputChannel.appendLine('Semgrep Offline extension activated');
 }
 
-function shouldScanDocument(document: vscode.TextDocument, supportedLanguages: string[]): boolean {
-    return supportedLanguages.includes(document.languageId) && document.uri.scheme === 'file';
-}
+const SCANNABLE_SCHEMES = ['file', 'untitled'];
 
-function getConfig(): { semgrepPath: string; rulesPaths: string[]; useCache: boolean; enableSecurityRules: boolean } {
-    const config = vscode.workspace.getConfiguration('semgrepOffline');
-    const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || '';
-    
-    const rulesPaths: string[] = [];
-    
-    let userRulesPath = config.get<string>('rulesPath') || 'semgrep_rules.yaml';
-    if (!path.isAbsolute(userRulesPath) && workspaceFolder) {
-        userRulesPath = path.join(workspaceFolder, userRulesPath);
+const STATUS_TOOLTIP = 'Semgrep Offline - Click to scan current file';
+
+const IGNORE_FILES = ['.gitignore', '.semgrepignore'];
+
+const ENGINES: AnalysisEngine[] = [
+    {
+        id: 'semgrep',
+        setting: 'enableSemgrep',
+        informationUri: 'https://semgrep.dev',
+        languages: null,
+        getExecutable: config => config.semgrepPath,
+        getContextKey: config => getScanContextKey(config.semgrepPath, config.rulesPaths),
+        run: runSemgrepScan,
+        reportErrors: reportSemgrepErrors
+    },
+    {
+        id: 'bandit',
+        setting: 'enableBandit',
+        informationUri: 'https://bandit.readthedocs.io',
+        languages: ['python'],
+        getExecutable: config => config.banditPath,
+        getContextKey: config => getScanContextKey(config.banditPath, []),
+        run: runBandit
+    },
+    {
+        id: 'ruff',
+        setting: 'enableRuff',
+        informationUri: 'https://docs.astral.sh/ruff',
+        languages: ['python'],
+        getExecutable: config => config.ruffPath,
+        getContextKey: config => getScanContextKey(config.ruffPath, [], config.ruffSelect),
+        run: runRuff
     }
-    rulesPaths.push(userRulesPath);
-    
-    const enableSecurityRules = config.get<boolean>('enableSecurityRules') ?? false;
-    if (enableSecurityRules && extensionPath) {
-        const securityRulesDir = path.join(extensionPath, 'rules', 'security');
-        const securityRuleFiles = [
-            'injection.yaml',
-            'crypto.yaml',
-            'auth.yaml',
-            'xss.yaml',
-            'deserialization.yaml',
-            'path-traversal.yaml',
-            'ssrf.yaml',
-            'xxe.yaml',
-            'config.yaml'
-        ];
-        for (const ruleFile of securityRuleFiles) {
-            rulesPaths.push(path.join(securityRulesDir, ruleFile));
-        }
+];
+
+const SOLID_CHECK_RUNNERS: Record<string, (document: vscode.TextDocument, silent: boolean) => Promise<void>> = {
+    SRP: checkSingleResponsibility,
+    OCP: checkOpenClosed,
+    DIP: checkDependencyInversion,
+    ISP: checkInterfaceSegregation
+};
+const SOLID_CHECKS = SOLID_PRINCIPLES.map(principle => ({ ...principle, run: SOLID_CHECK_RUNNERS[principle.principle] }));
+
+const NOSEMGREP_PATTERN = /(?:#|\/\/)\s*nosemgrep(?::\s*([\w.\-]+(?:\s*,\s*[\w.\-]+)*))?(?:\s*--\s*(.*))?/;
+const HASH_COMMENT_LANGUAGES = ['python', 'ruby', 'yaml', 'shellscript', 'dockerfile'];
+
+const SERVER_INIT_TIMEOUT_MS = 60000;
+const MAX_SERVER_RESTARTS = 3;
+const MAX_BATCH_SIZE = 20;
+const SCAN_CACHE_STATE_KEY = 'semgrepOffline.engineScanCache';
+const MAX_CACHE_ENTRIES = 500;
+const WORKSPACE_BATCH_SIZE = 100;
+const BASELINE_VERSION = 1;
+const FINDINGS_GROUP_BY_STATE_KEY = 'semgrepOffline.findingsGroupBy';
+const SEVERITY_LABELS = ['Error', 'Warning', 'Info', 'Hint'];
+const SECURITY_RULE_FILES = [
+    'injection.yaml',
+    'crypto.yaml',
+    'auth.yaml',
+    'xss.yaml',
+    'deserialization.yaml',
+    'path-traversal.yaml',
+    'ssrf.yaml',
+    'xxe.yaml',
+    'config.yaml'
+];
+const SEVERITY_LEVELS: Record<string, vscode.DiagnosticSeverity> = {
+    error: vscode.DiagnosticSeverity.Error,
+    warning: vscode.DiagnosticSeverity.Warning,
+    info: vscode.DiagnosticSeverity.Information,
+    hint: vscode.DiagnosticSeverity.Hint
+};
+const FIX_ALL_KIND = vscode.CodeActionKind.SourceFixAll.append('semgrep');
+const SUPPORTED_SEMGREP_VERSIONS = { min: [1, 50, 0], max: [2, 0, 0] };
+const VIRTUALENV_DIRECTORIES = ['.venv', 'venv', 'env'];
+const WALKTHROUGH_ID = 'payamnaghdi.semgrep-offline#gettingStarted';
+const SARIF_FINGERPRINT_KEY = 'semgrepOffline/v1';
+const SOLID_REPORT_SIZE = 5;
+const LANGUAGE_EXTENSIONS: Record<string, string> = {
+    ...SOLID_LANGUAGE_EXTENSIONS,
+    go: '.go',
+    java: '.java',
+    ruby: '.rb',
+    php: '.php',
+    csharp: '.cs',
+    rust: '.rs',
+    yaml: '.yaml',
+    json: '.json'
+};
+
+function getWorkspaceFolderFor(uri?: vscode.Uri): vscode.WorkspaceFolder | undefined {
+    return (uri && vscode.workspace.getWorkspaceFolder(uri)) || vscode.workspace.workspaceFolders?.[0];
+}
+
+function getSettings(uri?: vscode.Uri): vscode.WorkspaceConfiguration {
+    return vscode.workspace.getConfiguration('semgrepOffline', getWorkspaceFolderFor(uri)?.uri);
+}
+
+function getAllConfigs(): SemgrepConfig[] {
+    const folders = vscode.workspace.workspaceFolders;
+    const configs = folders && folders.length > 0 ? folders.map(f => getConfig(f.uri)) : [getConfig()];
+    const unique = new Map<string, SemgrepConfig>();
+    for (const config of configs) {
+        unique.set(getConfigKey(config), config);
     }
-    
-    let semgrepPath = config.get<string>('semgrepPath') || 'semgrep';
-    if (!path.isAbsolute(semgrepPath) && workspaceFolder && semgrepPath !== 'semgrep') {
-        semgrepPath = path.join(workspaceFolder, semgrepPath);
+    return [...unique.values()];
+}
+
+function updateStatusBarVisibility(): void {
+    const editor = vscode.window.activeTextEditor;
+    const supportedLanguages = editor ? getSettings(editor.document.uri).get<string[]>('languages') || ['python'] : [];
+    if (editor && shouldScanDocument(editor.document, supportedLanguages)) {
+        statusBarItem.show();
+    } else {
+        statusBarItem.hide();
     }
-    
-    const useCache = config.get<boolean>('useCache') ?? true;
-    
-    return { semgrepPath, rulesPaths, useCache, enableSecurityRules };
 }
 
-async function scanFile(document: vscode.TextDocument, force: boolean): Promise<void> {
-    const filePath = document.uri.fsPath;
-    const { semgrepPath, rulesPaths, useCache } = getConfig();
-    
-    if (useCache && !force) {
-        const currentHash = getFileHash(document.getText());
-        const cachedHash = fileHashCache.get(filePath);
-        if (cachedHash === currentHash) {
-            outputChannel.appendLine(`Skipping ${path.basename(filePath)} (unchanged)`);
-            return;
-        }
+function runSolidChecks(document: vscode.TextDocument): void {
+    const config = getSettings(document.uri);
+    SOLID_CHECKS.filter(c => config.get<boolean>(c.setting)).forEach(c => c.run(document, true));
+}
+
+function setSolidMetrics<K extends keyof SolidMetrics>(uri: vscode.Uri, principle: K, results: SolidMetrics[K]): void {
+    const key = uri.toString();
+    const metrics = solidMetrics.get(key) || {};
+    metrics[principle] = results;
+    solidMetrics.set(key, metrics);
+    solidCodeLensEmitter.fire();
+}
+
+function provideSolidCodeLenses(document: vscode.TextDocument): vscode.CodeLens[] {
+    const metrics = solidMetrics.get(document.uri.toString());
+    if (!metrics || !getSettings(document.uri).get<boolean>('solidCodeLens')) {
+        return [];
     }
     
-    if (isScanning) {
-        if (!scanQueue.find(d => d.uri.toString() === document.uri.toString())) {
-            scanQueue.push(document);
+    const titles = new Map<number, string[]>();
+    const add = (line: number, title: string) => {
+        if (line < document.lineCount) {
+            titles.set(line, [...(titles.get(line) || []), title]);
         }
-        return;
-    }
+    };
     
-    isScanning = true;
-    statusBarItem.text = '$(sync~spin) Scanning...';
-    outputChannel.appendLine(`Scanning: ${filePath}`);
+    for (const r of metrics.srp || []) {
+        add(r.startLine, `LCOM4 ${r.lcom4Value}`);
+    }
+    for (const r of metrics.dip || []) {
+        add(r.startLine, `DII ${(r.dii * 100).toFixed(0)}%`);
+    }
+    for (const r of metrics.isp || []) {
+        add(r.startLine, r.isInterface ? `IFS ${r.ifs}` : `SIR ${(r.sir * 100).toFixed(0)}%`);
+    }
+    for (const r of metrics.ocp || []) {
+        add(r.startLine, `OCP ${r.ocpScore.toFixed(1)}`);
+    }
     
-    try {
-        const results = await runSemgrep(semgrepPath, rulesPaths, filePath);
-        const semgrepDiagnostics = parseSemgrepResults(results, filePath);
-        const existingDiagnostics = diagnosticCollection.get(document.uri) || [];
-        const srpDiagnostics = existingDiagnostics.filter(d => d.source === 'solid-srp');
-        diagnosticCollection.set(document.uri, [...semgrepDiagnostics, ...srpDiagnostics]);
-        
-        if (useCache) {
-            fileHashCache.set(filePath, getFileHash(document.getText()));
+    return [...titles].map(([line, parts]) => new vscode.CodeLens(new vscode.Range(line, 0, line, 0), {
+        title: parts.join(' · '),
+        command: 'semgrep-offline.showSolidMetrics',
+        arguments: [document.uri, line]
+    }));
+}
+
+function getSolidMetricsBreakdown(uri: vscode.Uri, line: number): string {
+    const metrics = solidMetrics.get(uri.toString()) || {};
+    const className = [...(metrics.srp || []), ...(metrics.dip || []), ...(metrics.isp || [])].find(r => r.startLine === line)?.className;
+    const methods = (metrics.ocp || []).filter(r => className ? r.classStartLine === line : r.startLine === line);
+    const title = className ? `Class ${className}` : `Method ${methods[0]?.className}.${methods[0]?.methodName}`;
+    
+    let breakdown = `# SOLID Metrics: ${title}\n\n**File:** ${vscode.workspace.asRelativePath(uri)}:${line + 1}\n`;
+    
+    for (const r of (metrics.srp || []).filter(r => r.startLine === line)) {
+        breakdown += `\n## SRP: LCOM4 ${r.lcom4Value}\n\n### Connected Components\n`;
+        r.connectedComponents.forEach((component, i) => {
+            breakdown += `${i + 1}. ${component.length > 0 ? component.map(m => `\`${m}\``).join(', ') : '(no analyzed methods)'}\n`;
+        });
+        if (r.excludedMethods.length > 0) {
+            breakdown += `\n### Excluded Methods\n`;
+            for (const name of r.excludedMethods) {
+                breakdown += `- \`${name}\`: ${r.excludeReasons[name]}\n`;
+            }
+        }
+    }
+    
+    for (const r of (metrics.dip || []).filter(r => r.startLine === line)) {
+        breakdown += `\n## DIP: DII ${(r.dii * 100).toFixed(0)}%, Score ${r.dipScore.toFixed(1)}\n\n`;
+        breakdown += `- **Injected dependencies:** ${r.injectedDependencies} of ${r.totalDependencies}\n`;
+        breakdown += `- **Constructor instantiations:** ${r.constructorInstantiations}\n`;
+        breakdown += `- **Method instantiations:** ${r.methodInstantiations}\n`;
+        if (r.violations.length > 0) {
+            breakdown += `\n### Instantiations\n`;
+            for (const v of r.violations) {
+                breakdown += `- Line ${v.line + 1}: \`${v.code}\`\n`;
+            }
+        }
+    }
+    
+    for (const r of (metrics.isp || []).filter(r => r.startLine === line)) {
+        if (r.isInterface) {
+            breakdown += `\n## ISP: IFS ${r.ifs}\n\n- **Abstract methods:** ${r.abstractMethodCount}\n`;
+            continue;
+        }
+        breakdown += `\n## ISP: SIR ${(r.sir * 100).toFixed(0)}%\n\n`;
+        breakdown += `- **Empty implementations:** ${r.emptyImplementations}\n`;
+        breakdown += `- **NotImplementedError stubs:** ${r.notImplementedErrors}\n`;
+        if (r.violations.length > 0) {
+            breakdown += `\n### Stubs\n`;
+            for (const v of r.violations) {
+                breakdown += `- Line ${v.line + 1}: \`${v.methodName}\` - \`${v.code}\`\n`;
+            }
+        }
+    }
+    
+    for (const r of methods) {
+        breakdown += `\n## OCP: ${r.methodName} Score ${r.ocpScore.toFixed(1)}\n\n`;
+        breakdown += `- **Type-Check Density (TCD):** ${(r.tcd * 100).toFixed(1)}%\n`;
+        breakdown += `- **Type-Field Switch Count (TFSC):** ${r.tfsc}\n`;
+        for (const v of r.violations) {
+            breakdown += `- Line ${v.line + 1} (${v.type}): \`${v.code}\`\n`;
         }
-        
-        statusBarItem.text = semgrepDiagnostics.length > 0 
-            ? `$(shield) Semgrep (${semgrepDiagnostics.length})` 
-            : '$(shield) Semgrep ✓';
-        
-        outputChannel.appendLine(`Found ${semgrepDiagnostics.length} issue(s) in ${path.basename(filePath)}`);
-    } catch (error) {
-        statusBarItem.text = '$(shield) Semgrep ⚠';
-        outputChannel.appendLine(`Error scanning ${filePath}: ${error}`);
-    } finally {
-        isScanning = false;
-        processQueue();
     }
+    
+    return breakdown;
 }
 
-function processQueue(): void {
-    if (scanQueue.length > 0) {
-        const nextDoc = scanQueue.shift()!;
-        scanFile(nextDoc, false);
-    }
+async function showSolidMetrics(uri: vscode.Uri, line: number): Promise<void> {
+    const document = await vscode.workspace.openTextDocument({ language: 'markdown', content: getSolidMetricsBreakdown(uri, line) });
+    await vscode.window.showTextDocument(document, { viewColumn: vscode.ViewColumn.Beside, preview: true });
 }
 
-async function scanWorkspace(): Promise<void> {
-    const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
-    if (!workspaceFolder) {
-        vscode.window.showWarningMessage('No workspace folder open');
+function getOpenScannableDocuments(): vscode.TextDocument[] {
+    return vscode.workspace.textDocuments.filter(d => shouldScanDocument(d, getSettings(d.uri).get<string[]>('languages') || ['python']));
+}
+
+function handleConfigurationChange(event: vscode.ConfigurationChangeEvent): void {
+    if (!event.affectsConfiguration('semgrepOffline')) {
         return;
     }
     
-    const { semgrepPath, rulesPaths } = getConfig();
+    const rulesChanged = event.affectsConfiguration('semgrepOffline.rulesPath') ||
+        event.affectsConfiguration('semgrepOffline.enableSecurityRules');
+    const semgrepPathChanged = event.affectsConfiguration('semgrepOffline.semgrepPath');
     
-    statusBarItem.text = '$(sync~spin) Scanning workspace...';
-    outputChannel.appendLine(`Scanning workspace: ${workspaceFolder}`);
+    if (rulesChanged) {
+        setupRulesWatchers();
+    }
+    const enginePathChanged = ['banditPath', 'ruffPath'].some(setting => event.affectsConfiguration(`semgrepOffline.${setting}`));
+    if (semgrepPathChanged || enginePathChanged) {
+        toolVersions.clear();
+        toolInstallations.clear();
+    }
+    if (rulesChanged || semgrepPathChanged || event.affectsConfiguration('semgrepOffline.serverMode')) {
+        restartSemgrepServer();
+    }
+    if (rulesChanged || semgrepPathChanged) {
+        handleRulesChanged('Semgrep configuration changed', false);
+    }
     
-    try {
-        const results = await runSemgrep(semgrepPath, rulesPaths, workspaceFolder);
-        
-        diagnosticCollection.clear();
-        fileHashCache.clear();
-        
-        const fileGroups = new Map<string, vscode.Diagnostic[]>();
-        
-        for (const finding of results.results) {
-            const absPath = path.isAbsolute(finding.path) 
-                ? finding.path 
-                : path.join(workspaceFolder, finding.path);
-            
-            if (!fileGroups.has(absPath)) {
-                fileGroups.set(absPath, []);
+    const enginesChanged = ENGINES.some(e => event.affectsConfiguration(`semgrepOffline.${e.setting}`)) ||
+        event.affectsConfiguration('semgrepOffline.ruffSelect');
+    
+    if (enginesChanged || enginePathChanged) {
+        for (const [key, diagnostics] of allDiagnostics) {
+            const uri = vscode.Uri.parse(key);
+            const enabledSources = getEnabledEngines(uri).map(e => e.id);
+            setDiagnostics(uri, diagnostics.filter(d => !isEngineDiagnostic(d) || enabledSources.includes(d.source || '')));
+        }
+        for (const document of getOpenScannableDocuments()) {
+            scanFile(document, false);
+        }
+    }
+    
+    const solidChanged = SOLID_CHECKS.some(c => event.affectsConfiguration(`semgrepOffline.${c.setting}`)) ||
+        Object.keys(DEFAULT_SOLID_THRESHOLDS)
+            .some(setting => event.affectsConfiguration(`semgrepOffline.${setting}`));
+    
+    if (solidChanged) {
+        solidMetrics.clear();
+        for (const [key, diagnostics] of allDiagnostics) {
+            const uri = vscode.Uri.parse(key);
+            const config = getSettings(uri);
+            const disabledSources = SOLID_CHECKS.filter(c => !config.get<boolean>(c.setting)).map(c => c.source);
+            setDiagnostics(uri, diagnostics.filter(d => !disabledSources.includes(d.source || '')));
+        }
+        for (const document of getOpenScannableDocuments()) {
+            runSolidChecks(document);
+        }
+    }
+    
+    if (event.affectsConfiguration('semgrepOffline.diffAware') ||
+        event.affectsConfiguration('semgrepOffline.diffBaseRef')) {
+        diffInfoCache.clear();
+        for (const folder of vscode.workspace.workspaceFolders || []) {
+            if (getSettings(folder.uri).get<boolean>('diffAware')) {
+                refreshDiffInfo(folder);
             }
-            
-            const diagnostic = createDiagnostic(finding);
-            fileGroups.get(absPath)!.push(diagnostic);
         }
-        
-        for (const [filePath, diagnostics] of fileGroups) {
-            diagnosticCollection.set(vscode.Uri.file(filePath), diagnostics);
+    }
+    
+    if (event.affectsConfiguration('semgrepOffline.baselinePath')) {
+        baselineCache.clear();
+        setupBaselineWatchers();
+    }
+    if (event.affectsConfiguration('semgrepOffline.importResults')) {
+        setupImportWatchers();
+    }
+    if (event.affectsConfiguration('semgrepOffline.baselinePath') ||
+        event.affectsConfiguration('semgrepOffline.baselineMode') ||
+        event.affectsConfiguration('semgrepOffline.securityRulesSeverity') ||
+        event.affectsConfiguration('semgrepOffline.severityOverrides') ||
+        event.affectsConfiguration('semgrepOffline.diffHideOutsideHunks')) {
+        refreshDisplayedDiagnostics();
+    }
+    
+    if (event.affectsConfiguration('semgrepOffline.languages')) {
+        updateStatusBarVisibility();
+    }
+    
+    if (event.affectsConfiguration('semgrepOffline.solidCodeLens')) {
+        solidCodeLensEmitter.fire();
+    }
+}
+
+function setupRulesWatchers(): void {
+    disposeRulesWatchers();
+    ruleIndex = null;
+    
+    const rulesPaths = new Set(getAllConfigs().flatMap(c => c.rulesPaths));
+    for (const rulesPath of rulesPaths) {
+        let pattern: vscode.RelativePattern;
+        try {
+            pattern = fs.statSync(rulesPath).isDirectory()
+                ? new vscode.RelativePattern(vscode.Uri.file(rulesPath), '**/*.{yaml,yml}')
+                : new vscode.RelativePattern(vscode.Uri.file(path.dirname(rulesPath)), path.basename(rulesPath));
+        } catch {
+            pattern = new vscode.RelativePattern(vscode.Uri.file(path.dirname(rulesPath)), path.basename(rulesPath));
         }
         
-        const totalIssues = results.results.length;
-        statusBarItem.text = totalIssues > 0 
-            ? `$(shield) Semgrep (${totalIssues})` 
-            : '$(shield) Semgrep ✓';
-        
-        outputChannel.appendLine(`Workspace scan complete: ${totalIssues} issue(s) in ${fileGroups.size} file(s)`);
-        vscode.window.showInformationMessage(`Semgrep: Found ${totalIssues} issue(s) in ${fileGroups.size} file(s)`);
-    } catch (error) {
-        statusBarItem.text = '$(shield) Semgrep ⚠';
-        outputChannel.appendLine(`Error scanning workspace: ${error}`);
-        vscode.window.showErrorMessage(`Semgrep workspace scan failed: ${error}`);
+        const watcher = vscode.workspace.createFileSystemWatcher(pattern);
+        const onRulesFileChanged = (uri: vscode.Uri) => {
+            debounce('rules-changed', () => handleRulesChanged(`Rules changed: ${path.basename(uri.fsPath)}`, true), 500);
+        };
+        watcher.onDidChange(onRulesFileChanged);
+        watcher.onDidCreate(onRulesFileChanged);
+        watcher.onDidDelete(onRulesFileChanged);
+        rulesWatchers.push(watcher);
     }
 }
 
-function runSemgrep(semgrepPath: string, rulesPaths: string[], targetPath: string): Promise<SemgrepResult> {
-    return new Promise((resolve, reject) => {
-        const args: string[] = [];
-        
-        for (const rulesPath of rulesPaths) {
+function disposeRulesWatchers(): void {
+    for (const watcher of rulesWatchers) {
+        watcher.dispose();
+    }
+    rulesWatchers = [];
+}
+
+async function handleRulesChanged(reason: string, restartServer: boolean): Promise<void> {
+    outputChannel.appendLine(reason);
+    ruleIndex = null;
+    
+    let validationError: string | null = null;
+    for (const config of getAllConfigs()) {
+        validationError = await validateRules(config);
+        if (validationError) {
+            break;
+        }
+    }
+    if (validationError) {
+        setStatusError('invalid rules', validationError);
+        outputChannel.appendLine(`Rules validation failed: ${validationError}`);
+        vscode.window.showWarningMessage(`Semgrep: rules are invalid, see the Semgrep Offline output for details.`);
+        return;
+    }
+    setStatusText('$(shield) Semgrep');
+    clearRulesDiagnostics();
+    
+    clearScanCache();
+    if (restartServer) {
+        await restartSemgrepServer();
+    }
+    
+    const documents = getOpenScannableDocuments();
+    vscode.window.setStatusBarMessage(`$(sync~spin) Semgrep: ${reason.toLowerCase()}, rescanning ${documents.length} open file(s)`, 3000);
+    for (const document of documents) {
+        scanFile(document, true);
+    }
+}
+
+function validateRules(config: SemgrepConfig): Promise<string | null> {
+    return new Promise((resolve) => {
+        const args: string[] = ['--validate', '--metrics=off', '--disable-version-check', '--oss-only'];
+        for (const rulesPath of config.rulesPaths) {
             args.push('--config', rulesPath);
         }
         
-        args.push(
-            '--json',
-            '--metrics=off',
-            '--disable-version-check',
-            '--oss-only',
-            '--no-git-ignore',
-            '-j', '1',
-            targetPath
-        );
-        
-        outputChannel.appendLine(`Running: ${semgrepPath} ${args.join(' ')}`);
-        
-        const proc = spawn(semgrepPath, args, {
-            cwd: vscode.workspace.workspaceFolders?.[0]?.uri.fsPath
+        const proc = spawn(config.semgrepPath, args, {
+            cwd: config.workspaceFolder || undefined
         });
+        scanProcesses.add(proc);
         
-        let stdout = '';
-        let stderr = '';
-        
+        let output = '';
         proc.stdout.on('data', (data) => {
-            stdout += data.toString();
+            output += data.toString();
         });
-        
         proc.stderr.on('data', (data) => {
-            stderr += data.toString();
+            output += data.toString();
         });
         
         proc.on('close', (code) => {
-            if (stderr && !stderr.includes('UserWarning')) {
-                outputChannel.appendLine(`Semgrep stderr: ${stderr}`);
-            }
-            
-            try {
-                const result = JSON.parse(stdout) as SemgrepResult;
-                resolve(result);
-            } catch (e) {
-                if (code === 0 && !stdout.trim()) {
-                    resolve({ results: [], errors: [] });
-                } else {
-                    reject(new Error(`Failed to parse semgrep output: ${e}\nStdout: ${stdout}\nStderr: ${stderr}`));
-                }
-            }
+            scanProcesses.delete(proc);
+            resolve(code === 0 ? null : output.trim() || `semgrep exited with code ${code}`);
         });
         
         proc.on('error', (error) => {
-            reject(new Error(`Failed to run semgrep: ${error.message}`));
+            scanProcesses.delete(proc);
+            resolve(`Failed to run semgrep: ${error.message}`);
         });
     });
 }
 
-function parseSemgrepResults(results: SemgrepResult, filePath: string): vscode.Diagnostic[] {
-    const diagnostics: vscode.Diagnostic[] = [];
+function getDiagnostics(uri: vscode.Uri): vscode.Diagnostic[] {
+    return allDiagnostics.get(uri.toString()) || [];
+}
+
+function setDiagnostics(uri: vscode.Uri, diagnostics: vscode.Diagnostic[]): void {
+    allDiagnostics.set(uri.toString(), diagnostics);
+    showDiagnostics(uri, diagnostics);
+}
+
+function showDiagnostics(uri: vscode.Uri, diagnostics: vscode.Diagnostic[]): void {
+    const combined = dedupeEngineDiagnostics([...diagnostics, ...getImportedDiagnostics(uri)]);
+    diagnosticCollection.set(uri, filterDiagnosticsToBaseline(uri, filterDiagnosticsToDiff(uri, applySeverityPolicy(uri, combined))));
+}
+
+function dedupeEngineDiagnostics(diagnostics: vscode.Diagnostic[]): vscode.Diagnostic[] {
+    const engineIds = ENGINES.map(e => e.id);
+    const sources = new Set(diagnostics.filter(d => diagnosticFindings.has(d) && isEngineDiagnostic(d)).map(d => d.source));
+    if (sources.size < 2) {
+        return diagnostics;
+    }
     
-    for (const finding of results.results) {
-        const findingPath = path.isAbsolute(finding.path) 
-            ? finding.path 
-            : path.resolve(vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || '', finding.path);
+    const ranked = [...diagnostics].sort((a, b) => {
+        const rankA = engineIds.indexOf(a.source || '');
+        const rankB = engineIds.indexOf(b.source || '');
+        return (rankA < 0 ? engineIds.length : rankA) - (rankB < 0 ? engineIds.length : rankB);
+    });
+    const kept: vscode.Diagnostic[] = [];
+    const duplicates = new Map<vscode.Diagnostic, string[]>();
+    
+    for (const diagnostic of ranked) {
+        const finding = diagnosticFindings.get(diagnostic);
+        const keys = finding && isEngineDiagnostic(diagnostic) ? getDedupeKeys(finding) : [];
+        const original = keys.length > 0 ? kept.find(k => {
+            const keptFinding = diagnosticFindings.get(k);
+            return keptFinding && k.source !== diagnostic.source && isEngineDiagnostic(k) &&
+                k.range.start.line === diagnostic.range.start.line &&
+                getDedupeKeys(keptFinding).some(key => keys.includes(key));
+        }) : undefined;
         
-        if (path.normalize(findingPath) === path.normalize(filePath)) {
-            diagnostics.push(createDiagnostic(finding));
+        if (original) {
+            const labels = duplicates.get(original) || [];
+            labels.push(`${diagnostic.source} ${finding!.check_id}`);
+            duplicates.set(original, labels);
+        } else {
+            kept.push(diagnostic);
         }
     }
     
-    return diagnostics;
+    return kept.map(d => duplicates.has(d)
+        ? copyDiagnostic(d, d.severity, `${d.message} [also: ${duplicates.get(d)!.join(', ')}]`)
+        : d);
 }
 
-function createDiagnostic(finding: SemgrepFinding): vscode.Diagnostic {
-    const startLine = Math.max(0, finding.start.line - 1);
-    const startCol = Math.max(0, finding.start.col - 1);
-    const endLine = Math.max(0, finding.end.line - 1);
-    const endCol = Math.max(0, finding.end.col - 1);
-    
-    const range = new vscode.Range(startLine, startCol, endLine, endCol);
-    
-    const severity = mapSeverity(finding.extra.severity);
-    
-    const diagnostic = new vscode.Diagnostic(
-        range,
-        `${finding.extra.message}`,
-        severity
-    );
-    
-    diagnostic.source = 'semgrep';
-    diagnostic.code = finding.check_id;
-    
-    return diagnostic;
+function getDedupeKeys(finding: SemgrepFinding): string[] {
+    const keys = getFindingCwes(finding);
+    const testId = finding.check_id.match(/^[BS](\d{3})$/);
+    if (testId) {
+        keys.push(`test:${testId[1]}`);
+    }
+    return keys;
 }
 
-function mapSeverity(severity: string): vscode.DiagnosticSeverity {
-    switch (severity.toUpperCase()) {
-        case 'ERROR':
-            return vscode.DiagnosticSeverity.Error;
-        case 'WARNING':
-            return vscode.DiagnosticSeverity.Warning;
-        case 'INFO':
-            return vscode.DiagnosticSeverity.Information;
-        default:
-            return vscode.DiagnosticSeverity.Warning;
+function deleteDiagnostics(uri: vscode.Uri): void {
+    allDiagnostics.delete(uri.toString());
+    if (hasImportedDiagnostics(uri)) {
+        showDiagnostics(uri, []);
+    } else {
+        diagnosticCollection.delete(uri);
     }
 }
 
-async function checkSingleResponsibility(document: vscode.TextDocument, silent: boolean = false): Promise<void> {
-    const config = vscode.workspace.getConfiguration('semgrepOffline');
-    const threshold = config.get<number>('srpLcom4Threshold') || 1;
-    
-    const text = document.getText();
-    const classes = parseClasses(text, document.languageId);
-    
-    if (classes.length === 0) {
-        if (!silent) {
-            vscode.window.showInformationMessage('No classes found in the current file.');
-        }
-        return;
+function refreshDisplayedDiagnostics(): void {
+    for (const [key, diagnostics] of allDiagnostics) {
+        setDiagnostics(vscode.Uri.parse(key), diagnostics);
     }
-    
-    const results: LCOM4Result[] = [];
-    const diagnostics: vscode.Diagnostic[] = [];
-    
-    for (const classInfo of classes) {
-        const lcom4Result = calculateLCOM4(classInfo);
-        results.push(lcom4Result);
-        
-        if (lcom4Result.lcom4Value > threshold) {
-            const range = new vscode.Range(
-                classInfo.startLine, 0,
-                classInfo.startLine, 100
-            );
-            
-            const prompt = generateSRPPrompt([lcom4Result], document.uri.fsPath);
-            
-            const excludedInfo = lcom4Result.excludedMethods.length > 0 
-                ? ` (${lcom4Result.excludedMethods.length} override/stub methods excluded)` 
-                : '';
-            
-            const diagnostic = new vscode.Diagnostic(
-                range,
-                `SRP Violation: Class '${classInfo.name}' has LCOM4=${lcom4Result.lcom4Value}${excludedInfo}. ${lcom4Result.suggestion}\n\n--- Agent Prompt ---\n${prompt}`,
-                vscode.DiagnosticSeverity.Warning
-            );
-            diagnostic.source = 'solid-srp';
-            diagnostic.code = 'LCOM4';
-            diagnostics.push(diagnostic);
+    for (const key of getImportedUris()) {
+        if (!allDiagnostics.has(key)) {
+            showDiagnostics(vscode.Uri.parse(key), []);
         }
     }
+}
+
+function copyDiagnostic(diagnostic: vscode.Diagnostic, severity: vscode.DiagnosticSeverity, message: string): vscode.Diagnostic {
+    const copy = new vscode.Diagnostic(diagnostic.range, message, severity);
+    copy.source = diagnostic.source;
+    copy.code = diagnostic.code;
+    copy.tags = diagnostic.tags;
+    copy.relatedInformation = diagnostic.relatedInformation;
     
-    const existingDiagnostics = diagnosticCollection.get(document.uri) || [];
-    const nonSrpDiagnostics = existingDiagnostics.filter(d => d.source !== 'solid-srp');
-    diagnosticCollection.set(document.uri, [...nonSrpDiagnostics, ...diagnostics]);
-    
-    const violatingClasses = results.filter(r => r.lcom4Value > threshold);
-    
-    if (!silent) {
-        if (violatingClasses.length > 0) {
-            const prompt = generateSRPPrompt(violatingClasses, document.uri.fsPath);
-            outputChannel.appendLine('\n=== SRP Analysis Result ===');
-            outputChannel.appendLine(prompt);
-            outputChannel.show();
-            
-            const action = await vscode.window.showWarningMessage(
-                `Found ${violatingClasses.length} class(es) potentially violating Single Responsibility Principle.`,
-                'View Details',
-                'Copy Prompt'
-            );
-            
-            if (action === 'Copy Prompt') {
-                await vscode.env.clipboard.writeText(prompt);
-                vscode.window.showInformationMessage('SRP analysis prompt copied to clipboard.');
-            } else if (action === 'View Details') {
-                outputChannel.show();
+    const fix = semgrepFixes.get(diagnostic);
+    if (fix) {
+        semgrepFixes.set(copy, fix);
+    }
+    if (semgrepErrorDiagnostics.has(diagnostic)) {
+        semgrepErrorDiagnostics.add(copy);
+    }
+    const finding = diagnosticFindings.get(diagnostic);
+    if (finding) {
+        diagnosticFindings.set(copy, finding);
+    }
+    const prompt = diagnosticPrompts.get(diagnostic);
+    if (prompt) {
+        diagnosticPrompts.set(copy, prompt);
+    }
+    const metrics = diagnosticMetrics.get(diagnostic);
+    if (metrics) {
+        diagnosticMetrics.set(copy, metrics);
+    }
+    return copy;
+}
+
+function loadBundledRuleIds(): void {
+    for (const ruleFile of SECURITY_RULE_FILES) {
+        try {
+            const content = fs.readFileSync(path.join(extensionPath, 'rules', 'security', ruleFile), 'utf8');
+            for (const match of content.matchAll(/^\s*-\s+id:\s*(\S+)/gm)) {
+                bundledRuleIds.add(match[1]);
             }
-        } else {
-            vscode.window.showInformationMessage('All classes pass the Single Responsibility Principle check.');
+        } catch {
+            // Missing bundled rule files are reported when semgrep loads them
         }
-    } else if (violatingClasses.length > 0) {
-        outputChannel.appendLine(`SRP: Found ${violatingClasses.length} violation(s) in ${path.basename(document.uri.fsPath)}`);
     }
 }
 
-function parseClasses(text: string, languageId: string): ClassInfo[] {
-    const classes: ClassInfo[] = [];
-    const lines = text.split('\n');
-    
-    if (languageId === 'python') {
-        return parsePythonClasses(lines);
-    } else if (languageId === 'typescript' || languageId === 'javascript' || languageId === 'typescriptreact' || languageId === 'javascriptreact') {
-        return parseTypeScriptClasses(lines);
-    }
-    
-    return classes;
+function getShortRuleId(checkId: string): string {
+    return checkId.split('.').pop() || checkId;
 }
 
-function parsePythonClasses(lines: string[]): ClassInfo[] {
-    const classes: ClassInfo[] = [];
-    let currentClass: ClassInfo | null = null;
-    let currentMethod: MethodInfo | null = null;
-    let classIndent = 0;
-    let methodIndent = 0;
-    let methodBodyLines: string[] = [];
-    
-    function finalizeMethod(method: MethodInfo, bodyLines: string[]): void {
-        const bodyText = bodyLines.join('\n').trim();
-        
-        if (/super\s*\(\s*\)/.test(bodyText)) {
-            method.callsSuper = true;
-        }
-        
-        if (bodyText === 'pass' || bodyText === '...' || (bodyLines.length === 1 && bodyLines[0].trim() === 'pass')) {
-            method.isStub = true;
-            method.stubType = 'pass';
-        } else if (bodyText.includes('raise NotImplementedError') || bodyText.includes('raise NotImplemented')) {
-            method.isStub = true;
-            method.stubType = 'not_implemented';
-        }
+function getFindingCwes(finding: SemgrepFinding): string[] {
+    const cwe = finding.extra.metadata?.cwe;
+    const values = Array.isArray(cwe) ? cwe : cwe !== undefined ? [cwe] : [];
+    return values.flatMap(value => String(value).match(/CWE-\d+/gi) || []).map(value => value.toUpperCase());
+}
+
+function getSeverityOverrideKeys(diagnostic: vscode.Diagnostic): string[] {
+    const finding = diagnosticFindings.get(diagnostic);
+    if (finding) {
+        const category = finding.extra.metadata?.category;
+        return [
+            finding.check_id,
+            getShortRuleId(finding.check_id),
+            ...getFindingCwes(finding),
+            ...(category !== undefined ? [`category:${category}`] : [])
+        ];
     }
+    if (diagnostic.source?.startsWith('solid-')) {
+        return [diagnostic.source, 'category:solid'];
+    }
+    return [];
+}
+
+function applySeverityPolicy(uri: vscode.Uri, diagnostics: vscode.Diagnostic[]): vscode.Diagnostic[] {
+    const settings = getSettings(uri);
+    const overrides = settings.get<Record<string, string>>('severityOverrides') || {};
+    const minimumSecuritySeverity = SEVERITY_LEVELS[settings.get<string>('securityRulesSeverity') || 'warning'] ?? vscode.DiagnosticSeverity.Warning;
+    const normalizedOverrides = new Map(Object.entries(overrides).map(([key, level]) => [key.toLowerCase(), level.toLowerCase()]));
     
-    for (let i = 0; i < lines.length; i++) {
-        const line = lines[i];
-        const trimmed = line.trimStart();
-        const indent = line.length - trimmed.length;
+    const result: vscode.Diagnostic[] = [];
+    for (const diagnostic of diagnostics) {
+        const key = getSeverityOverrideKeys(diagnostic).find(k => normalizedOverrides.has(k.toLowerCase()));
+        const level = key !== undefined ? normalizedOverrides.get(key.toLowerCase())! : undefined;
         
-        const classMatch = trimmed.match(/^class\s+(\w+)/);
-        if (classMatch) {
-            if (currentClass) {
-                if (currentMethod) {
-                    finalizeMethod(currentMethod, methodBodyLines);
-                    currentClass.methods.push(currentMethod);
-                }
-                currentClass.endLine = i - 1;
-                classes.push(currentClass);
-            }
-            currentClass = {
-                name: classMatch[1],
-                startLine: i,
-                endLine: i,
-                methods: [],
-                instanceVariables: new Set()
-            };
-            currentMethod = null;
-            methodBodyLines = [];
-            classIndent = indent;
+        if (level === 'off') {
             continue;
         }
-        
-        if (currentClass && indent <= classIndent && trimmed.length > 0 && !classMatch) {
-            if (currentMethod) {
-                finalizeMethod(currentMethod, methodBodyLines);
-                currentClass.methods.push(currentMethod);
-            }
-            currentClass.endLine = i - 1;
-            classes.push(currentClass);
-            currentClass = null;
-            currentMethod = null;
-            methodBodyLines = [];
+        if (level !== undefined && SEVERITY_LEVELS[level] !== undefined) {
+            const severity = SEVERITY_LEVELS[level];
+            result.push(severity === diagnostic.severity ? diagnostic : copyDiagnostic(diagnostic, severity, diagnostic.message));
             continue;
         }
         
-        if (currentClass) {
-            const methodMatch = trimmed.match(/^def\s+(\w+)\s*\(/);
-            if (methodMatch) {
-                if (currentMethod) {
-                    finalizeMethod(currentMethod, methodBodyLines);
-                    currentClass.methods.push(currentMethod);
-                }
-                currentMethod = {
-                    name: methodMatch[1],
-                    startLine: i,
-                    endLine: i,
-                    usedVariables: new Set(),
-                    calledMethods: new Set(),
-                    callsSuper: false,
-                    isStub: false,
-                    stubType: 'none'
-                };
-                methodBodyLines = [];
-                methodIndent = indent;
-                continue;
-            }
-            
-            if (currentMethod && indent > methodIndent) {
-                currentMethod.endLine = i;
-                methodBodyLines.push(trimmed);
-                
-                const selfVarMatches = line.matchAll(/self\.(\w+)/g);
-                for (const match of selfVarMatches) {
-                    const varName = match[1];
-                    if (!varName.startsWith('_') || !varName.endsWith('_')) {
-                        if (line.includes(`self.${varName}(`) || line.includes(`self.${varName} (`)) {
-                            currentMethod.calledMethods.add(varName);
-                        } else {
-                            currentMethod.usedVariables.add(varName);
-                            currentClass.instanceVariables.add(varName);
-                        }
-                    }
-                }
-            }
+        const finding = diagnosticFindings.get(diagnostic);
+        if (finding && bundledRuleIds.has(getShortRuleId(finding.check_id)) && diagnostic.severity > minimumSecuritySeverity) {
+            continue;
         }
+        result.push(diagnostic);
+    }
+    return result;
+}
+
+function filterDiagnosticsToDiff(uri: vscode.Uri, diagnostics: vscode.Diagnostic[]): vscode.Diagnostic[] {
+    const folder = vscode.workspace.getWorkspaceFolder(uri);
+    if (!folder || !getSettings(uri).get<boolean>('diffHideOutsideHunks')) {
+        return diagnostics;
     }
     
-    if (currentClass) {
-        if (currentMethod) {
-            finalizeMethod(currentMethod, methodBodyLines);
-            currentClass.methods.push(currentMethod);
-        }
-        currentClass.endLine = lines.length - 1;
-        classes.push(currentClass);
+    const diffInfo = diffInfoCache.get(folder.uri.toString());
+    if (!diffInfo) {
+        return diagnostics;
+    }
+    
+    const ranges = diffInfo.files.get(path.normalize(uri.fsPath));
+    if (ranges === 'all') {
+        return diagnostics;
+    }
+    if (!ranges) {
+        return [];
     }
     
-    return classes;
+    return diagnostics.filter(d => ranges.some(r => d.range.start.line <= r.end && d.range.end.line >= r.start));
 }
 
-function parseTypeScriptClasses(lines: string[]): ClassInfo[] {
-    const classes: ClassInfo[] = [];
-    let currentClass: ClassInfo | null = null;
-    let currentMethod: MethodInfo | null = null;
-    let braceCount = 0;
-    let classStartBrace = 0;
-    let methodStartBrace = 0;
-    let methodBodyLines: string[] = [];
+function getBaselinePath(folder: vscode.WorkspaceFolder): string {
+    const baselinePath = getSettings(folder.uri).get<string>('baselinePath') || '.semgrep-baseline.json';
+    return path.isAbsolute(baselinePath) ? baselinePath : path.join(folder.uri.fsPath, baselinePath);
+}
+
+function setupBaselineWatchers(): void {
+    disposeBaselineWatchers();
     
-    function finalizeMethod(method: MethodInfo, bodyLines: string[]): void {
-        const bodyText = bodyLines.join(' ').trim();
-        
-        if (/super\./.test(bodyText)) {
-            method.callsSuper = true;
-        }
-        
-        const bodyWithoutBraces = bodyText.replace(/[{}]/g, '').trim();
-        if (bodyWithoutBraces === '' || /^\w+\s*\([^)]*\)\s*$/.test(bodyWithoutBraces)) {
-            method.isStub = true;
-            method.stubType = 'pass';
-        } else if (bodyText.includes('throw new Error') && 
-                   (bodyText.toLowerCase().includes('not implemented') || bodyText.includes('NotImplemented'))) {
-            method.isStub = true;
-            method.stubType = 'not_implemented';
-        }
+    for (const folder of vscode.workspace.workspaceFolders || []) {
+        const baselinePath = getBaselinePath(folder);
+        const watcher = vscode.workspace.createFileSystemWatcher(
+            new vscode.RelativePattern(vscode.Uri.file(path.dirname(baselinePath)), path.basename(baselinePath))
+        );
+        const onBaselineChanged = () => {
+            baselineCache.delete(folder.uri.toString());
+            debounce('baseline-changed', refreshDisplayedDiagnostics, 500);
+        };
+        watcher.onDidChange(onBaselineChanged);
+        watcher.onDidCreate(onBaselineChanged);
+        watcher.onDidDelete(onBaselineChanged);
+        baselineWatchers.push(watcher);
     }
-    
-    for (let i = 0; i < lines.length; i++) {
-        const line = lines[i];
-        const trimmed = line.trim();
-        
-        const classMatch = trimmed.match(/^(?:export\s+)?class\s+(\w+)/);
-        if (classMatch && braceCount === 0) {
-            currentClass = {
-                name: classMatch[1],
-                startLine: i,
-                endLine: i,
-                methods: [],
-                instanceVariables: new Set()
-            };
-            classStartBrace = braceCount;
-        }
-        
-        const openBraces = (line.match(/{/g) || []).length;
-        const closeBraces = (line.match(/}/g) || []).length;
-        braceCount += openBraces - closeBraces;
-        
-        if (currentClass) {
-            const methodMatch = trimmed.match(/^(?:public\s+|private\s+|protected\s+)?(?:async\s+)?(\w+)\s*\(/);
-            if (methodMatch && !trimmed.startsWith('constructor') && braceCount === classStartBrace + 1) {
-                if (currentMethod) {
-                    finalizeMethod(currentMethod, methodBodyLines);
-                    currentClass.methods.push(currentMethod);
-                }
-                currentMethod = {
-                    name: methodMatch[1],
-                    startLine: i,
-                    endLine: i,
-                    usedVariables: new Set(),
-                    calledMethods: new Set(),
-                    callsSuper: false,
-                    isStub: false,
-                    stubType: 'none'
-                };
-                methodBodyLines = [];
-                methodStartBrace = braceCount;
-            }
-            
-            if (currentMethod && braceCount > methodStartBrace) {
-                currentMethod.endLine = i;
-                methodBodyLines.push(trimmed);
-                
-                const thisVarMatches = line.matchAll(/this\.(\w+)/g);
-                for (const match of thisVarMatches) {
-                    const varName = match[1];
-                    if (line.includes(`this.${varName}(`) || line.includes(`this.${varName} (`)) {
-                        currentMethod.calledMethods.add(varName);
-                    } else {
-                        currentMethod.usedVariables.add(varName);
-                        currentClass.instanceVariables.add(varName);
-                    }
-                }
-            }
-            
-            if (currentMethod && braceCount <= methodStartBrace && closeBraces > 0) {
-                finalizeMethod(currentMethod, methodBodyLines);
-                currentClass.methods.push(currentMethod);
-                currentMethod = null;
-                methodBodyLines = [];
-            }
-            
-            if (braceCount === 0 && currentClass) {
-                currentClass.endLine = i;
-                classes.push(currentClass);
-                currentClass = null;
-            }
-        }
+}
+
+function disposeBaselineWatchers(): void {
+    for (const watcher of baselineWatchers) {
+        watcher.dispose();
     }
-    
-    return classes;
+    baselineWatchers = [];
 }
 
-function calculateLCOM4(classInfo: ClassInfo): LCOM4Result {
-    const excludedMethods: string[] = [];
-    const excludeReasons: Record<string, string> = {};
-    
-    const methods = classInfo.methods.filter(m => {
-        if (m.name.startsWith('__')) {
-            excludedMethods.push(m.name);
-            excludeReasons[m.name] = 'dunder method';
-            return false;
-        }
-        if (m.isStub) {
-            excludedMethods.push(m.name);
-            excludeReasons[m.name] = m.stubType === 'pass' ? 'stub (pass)' : 'stub (NotImplementedError)';
-            return false;
-        }
-        if (m.callsSuper) {
-            excludedMethods.push(m.name);
-            excludeReasons[m.name] = 'calls super()';
-            return false;
-        }
-        if (m.usedVariables.size === 0 && m.calledMethods.size === 0) {
-            excludedMethods.push(m.name);
-            excludeReasons[m.name] = 'no instance variable usage (likely override)';
-            return false;
-        }
-        return true;
-    });
-    
-    if (methods.length <= 1) {
-        return {
-            className: classInfo.name,
-            lcom4Value: 1,
-            connectedComponents: [methods.map(m => m.name)],
-            suggestion: 'Class has 0 or 1 analyzed method, LCOM4 is trivially 1.',
-            excludedMethods,
-            excludeReasons
-        };
+function readBaselineFile(folder: vscode.WorkspaceFolder): BaselineFile | null {
+    try {
+        const baseline = JSON.parse(fs.readFileSync(getBaselinePath(folder), 'utf8')) as BaselineFile;
+        return Array.isArray(baseline.findings) ? baseline : null;
+    } catch {
+        return null;
     }
-    
-    const adjacency = new Map<string, Set<string>>();
-    for (const method of methods) {
-        adjacency.set(method.name, new Set());
+}
+
+function getBaseline(folder: vscode.WorkspaceFolder): Map<string, Map<string, number>> | null {
+    const key = folder.uri.toString();
+    if (baselineCache.has(key)) {
+        return baselineCache.get(key)!;
     }
     
-    for (let i = 0; i < methods.length; i++) {
-        for (let j = i + 1; j < methods.length; j++) {
-            const m1 = methods[i];
-            const m2 = methods[j];
-            
-            const sharedVars = [...m1.usedVariables].filter(v => m2.usedVariables.has(v));
-            const m1CallsM2 = m1.calledMethods.has(m2.name);
-            const m2CallsM1 = m2.calledMethods.has(m1.name);
-            
-            if (sharedVars.length > 0 || m1CallsM2 || m2CallsM1) {
-                adjacency.get(m1.name)!.add(m2.name);
-                adjacency.get(m2.name)!.add(m1.name);
+    const baselineFile = readBaselineFile(folder);
+    let baseline: Map<string, Map<string, number>> | null = null;
+    if (baselineFile) {
+        baseline = new Map();
+        for (const entry of baselineFile.findings) {
+            const filePath = path.normalize(path.join(folder.uri.fsPath, entry.path));
+            if (!baseline.has(filePath)) {
+                baseline.set(filePath, new Map());
             }
+            const counts = baseline.get(filePath)!;
+            counts.set(entry.fingerprint, (counts.get(entry.fingerprint) || 0) + 1);
         }
     }
-    
-    const visited = new Set<string>();
-    const components: string[][] = [];
-    
-    for (const method of methods) {
-        if (!visited.has(method.name)) {
-            const component: string[] = [];
-            const stack = [method.name];
-            
-            while (stack.length > 0) {
-                const current = stack.pop()!;
-                if (!visited.has(current)) {
-                    visited.add(current);
-                    component.push(current);
-                    
-                    for (const neighbor of adjacency.get(current) || []) {
-                        if (!visited.has(neighbor)) {
-                            stack.push(neighbor);
-                        }
-                    }
-                }
-            }
-            
-            components.push(component);
+    baselineCache.set(key, baseline);
+    return baseline;
+}
+
+function getFileLines(uri: vscode.Uri): string[] | null {
+    const document = vscode.workspace.textDocuments.find(d => d.uri.toString() === uri.toString());
+    if (document) {
+        return document.getText().split('\n');
+    }
+    try {
+        return fs.readFileSync(uri.fsPath, 'utf8').split('\n');
+    } catch {
+        return null;
+    }
+}
+
+function getDiagnosticRuleId(diagnostic: vscode.Diagnostic): string {
+    return `${diagnostic.source}:${getDiagnosticCode(diagnostic)}`;
+}
+
+function findEnclosingSymbol(lines: string[], line: number): string {
+    const names: string[] = [];
+    let indent = Infinity;
+    for (let i = Math.min(line, lines.length - 1); i >= 0 && indent > 0; i--) {
+        const text = lines[i];
+        const lineIndent = text.length - text.trimStart().length;
+        if (!text.trim() || lineIndent >= indent) {
+            continue;
+        }
+        const match = text.match(/^\s*(?:export\s+)?(?:default\s+)?(?:abstract\s+)?(?:async\s+)?(?:def|class|function|interface)\s+(\w+)/) ||
+            text.match(/^\s*(?:(?:public|private|protected|static|async|readonly)\s+)*(\w+)\s*\([^)]*\)\s*(?::\s*[^{]+)?\{\s*$/);
+        if (match && !['if', 'for', 'while', 'switch', 'catch'].includes(match[1])) {
+            names.unshift(match[1]);
+            indent = lineIndent;
         }
     }
-    
-    const suggestion = generateLCOM4Suggestion(classInfo.name, components);
-    
-    return {
-        className: classInfo.name,
-        lcom4Value: components.length,
-        connectedComponents: components,
-        suggestion,
-        excludedMethods,
-        excludeReasons
-    };
+    return names.join('.');
+}
+
+function getFingerprint(diagnostic: vscode.Diagnostic, lines: string[]): { fingerprint: string; ruleId: string; symbol: string } {
+    const ruleId = getDiagnosticRuleId(diagnostic);
+    const symbol = findEnclosingSymbol(lines, diagnostic.range.start.line);
+    const code = lines
+        .slice(diagnostic.range.start.line, Math.min(diagnostic.range.end.line, diagnostic.range.start.line + 4) + 1)
+        .map(line => line.trim().replace(/\s+/g, ' '))
+        .join('\n');
+    const fingerprint = crypto.createHash('sha256').update(`${ruleId}\0${symbol}\0${code}`).digest('hex').slice(0, 16);
+    return { fingerprint, ruleId, symbol };
 }
 
-function generateLCOM4Suggestion(className: string, components: string[][]): string {
-    if (components.length <= 1) {
-        return 'Class appears to be cohesive.';
+function filterDiagnosticsToBaseline(uri: vscode.Uri, diagnostics: vscode.Diagnostic[]): vscode.Diagnostic[] {
+    const folder = vscode.workspace.getWorkspaceFolder(uri);
+    const baseline = folder ? getBaseline(folder) : null;
+    const counts = baseline?.get(path.normalize(uri.fsPath));
+    if (!counts || diagnostics.length === 0) {
+        return diagnostics;
     }
     
-    const componentDescriptions = components.map((comp, idx) => 
-        `Group ${idx + 1}: ${comp.join(', ')}`
-    ).join('; ');
+    const lines = getFileLines(uri);
+    if (!lines) {
+        return diagnostics;
+    }
     
-    return `Consider splitting into ${components.length} classes. Method groups: ${componentDescriptions}`;
+    const remaining = new Map(counts);
+    const showAsHint = getSettings(uri).get<string>('baselineMode') === 'hint';
+    const result: vscode.Diagnostic[] = [];
+    for (const diagnostic of diagnostics) {
+        const { fingerprint } = getFingerprint(diagnostic, lines);
+        const count = remaining.get(fingerprint) || 0;
+        if (count === 0) {
+            result.push(diagnostic);
+            continue;
+        }
+        remaining.set(fingerprint, count - 1);
+        if (showAsHint) {
+            result.push(copyDiagnostic(diagnostic, vscode.DiagnosticSeverity.Hint, `(baseline) ${diagnostic.message}`));
+        }
+    }
+    return result;
 }
 
-function generateSRPPrompt(violations: LCOM4Result[], filePath: string): string {
-    const fileName = path.basename(filePath);
+function collectBaselineEntries(folder: vscode.WorkspaceFolder): { entries: BaselineEntry[]; files: Set<string> } {
+    const entries: BaselineEntry[] = [];
+    const files = new Set<string>();
     
-    let prompt = `# Single Responsibility Principle Violation Analysis\n\n`;
-    prompt += `**File:** ${fileName}\n\n`;
-    prompt += `The following class(es) may violate the Single Responsibility Principle based on LCOM4 analysis:\n\n`;
-    
-    for (const violation of violations) {
-        prompt += `## Class: ${violation.className}\n`;
-        prompt += `- **LCOM4 Score:** ${violation.lcom4Value} (ideal is 1)\n`;
-        prompt += `- **Connected Components:** ${violation.lcom4Value}\n`;
-        
-        if (violation.excludedMethods.length > 0) {
-            prompt += `- **Excluded Methods:** ${violation.excludedMethods.length} (override/stub methods not analyzed)\n`;
+    for (const [key, diagnostics] of allDiagnostics) {
+        const uri = vscode.Uri.parse(key);
+        if (uri.scheme !== 'file' || vscode.workspace.getWorkspaceFolder(uri)?.uri.toString() !== folder.uri.toString()) {
+            continue;
         }
-        
-        prompt += `\n### Method Groups (disconnected responsibilities):\n`;
-        
-        for (let i = 0; i < violation.connectedComponents.length; i++) {
-            const component = violation.connectedComponents[i];
-            prompt += `${i + 1}. **Responsibility ${i + 1}:** ${component.join(', ')}\n`;
+        const lines = getFileLines(uri);
+        if (!lines) {
+            continue;
         }
         
-        if (violation.excludedMethods.length > 0) {
-            prompt += `\n### Excluded from Analysis:\n`;
-            prompt += `The following methods were excluded from LCOM4 calculation:\n`;
-            for (const methodName of violation.excludedMethods) {
-                const reason = violation.excludeReasons[methodName] || 'unknown';
-                prompt += `- \`${methodName}\`: ${reason}\n`;
+        const relativePath = path.relative(folder.uri.fsPath, uri.fsPath).split(path.sep).join('/');
+        files.add(relativePath);
+        for (const diagnostic of diagnostics) {
+            if (semgrepErrorDiagnostics.has(diagnostic)) {
+                continue;
             }
+            const { fingerprint, ruleId, symbol } = getFingerprint(diagnostic, lines);
+            entries.push({
+                fingerprint,
+                path: relativePath,
+                ruleId,
+                symbol,
+                line: diagnostic.range.start.line + 1,
+                message: diagnostic.message.split('\n')[0]
+            });
         }
-        
-        prompt += `\n### Recommended Refactoring:\n`;
-        prompt += `This class has ${violation.lcom4Value} disconnected groups of methods that don't share state or call each other. `;
-        prompt += `Consider extracting each group into its own class:\n\n`;
-        
-        for (let i = 0; i < violation.connectedComponents.length; i++) {
-            const component = violation.connectedComponents[i];
-            const suggestedName = `${violation.className}${getSuggestedSuffix(i, violation.connectedComponents.length)}`;
-            prompt += `- Create \`${suggestedName}\` with methods: ${component.join(', ')}\n`;
-        }
-        
-        prompt += `\n`;
     }
     
-    prompt += `---\n`;
-    prompt += `**Action Required:** Please refactor the above class(es) to follow the Single Responsibility Principle. `;
-    prompt += `Each new class should have one clear responsibility and all its methods should be cohesive (working on the same data/state).\n`;
-    
-    return prompt;
+    return { entries, files };
+}
+
+async function writeBaselineFile(folder: vscode.WorkspaceFolder, findings: BaselineEntry[]): Promise<void> {
+    findings.sort((a, b) => a.path.localeCompare(b.path) || a.line - b.line || a.ruleId.localeCompare(b.ruleId));
+    const baseline: BaselineFile = { version: BASELINE_VERSION, createdAt: new Date().toISOString(), findings };
+    await fs.promises.writeFile(getBaselinePath(folder), JSON.stringify(baseline, null, 2) + '\n', 'utf8');
+    baselineCache.delete(folder.uri.toString());
+    refreshDisplayedDiagnostics();
 }
 
-function getSuggestedSuffix(index: number, total: number): string {
-    if (total === 2) {
-        return index === 0 ? 'Core' : 'Helper';
+async function pickBaselineFolder(): Promise<vscode.WorkspaceFolder | undefined> {
+    const folders = vscode.workspace.workspaceFolders;
+    if (!folders || folders.length === 0) {
+        vscode.window.showWarningMessage('No workspace folder open');
+        return undefined;
     }
-    const suffixes = ['Core', 'Manager', 'Handler', 'Service', 'Processor', 'Builder', 'Factory', 'Provider'];
-    return suffixes[index % suffixes.length];
+    return folders.length > 1
+        ? vscode.window.showWorkspaceFolderPick({ placeHolder: 'Select the workspace folder for the baseline' })
+        : folders[0];
 }
 
-async function checkOpenClosed(document: vscode.TextDocument, silent: boolean = false): Promise<void> {
-    const config = vscode.workspace.getConfiguration('semgrepOffline');
-    const threshold = config.get<number>('ocpScoreThreshold') || 4;
+async function createBaseline(): Promise<void> {
+    const folder = await pickBaselineFolder();
+    if (!folder) {
+        return;
+    }
     
-    const text = document.getText();
-    const lines = text.split('\n');
-    const classes = parseClasses(text, document.languageId);
+    const { entries, files } = collectBaselineEntries(folder);
+    await writeBaselineFile(folder, entries);
     
-    if (classes.length === 0) {
-        if (!silent) {
-            vscode.window.showInformationMessage('No classes found in the current file.');
-        }
+    outputChannel.appendLine(`Baseline written to ${getBaselinePath(folder)}: ${entries.length} finding(s) in ${files.size} file(s)`);
+    vscode.window.showInformationMessage(
+        `Semgrep: Baseline created with ${entries.length} finding(s) from ${files.size} scanned file(s). Run "Scan Workspace" first to include files that haven't been scanned.`
+    );
+}
+
+async function updateBaseline(): Promise<void> {
+    const folder = await pickBaselineFolder();
+    if (!folder) {
         return;
     }
     
-    const results: OCPResult[] = [];
-    const diagnostics: vscode.Diagnostic[] = [];
-    
-    for (const classInfo of classes) {
-        for (const method of classInfo.methods) {
-            const methodLines = lines.slice(method.startLine, method.endLine + 1);
-            const methodText = methodLines.join('\n');
-            
-            const violations = detectOCPViolations(methodText, method.startLine, document.languageId);
-            
-            if (violations.length > 0) {
-                const tcd = calculateTCD(violations, methodLines.length);
-                const tfsc = calculateTFSC(violations);
-                const ocpScore = calculateOCPScore(violations);
-                
-                const result: OCPResult = {
-                    className: classInfo.name,
-                    methodName: method.name,
-                    startLine: method.startLine,
-                    tcd,
-                    tfsc,
-                    ocpScore,
-                    violations,
-                    suggestion: generateOCPSuggestion(violations, ocpScore)
-                };
-                
-                results.push(result);
-                
-                if (ocpScore > threshold) {
-                    const range = new vscode.Range(method.startLine, 0, method.startLine, 100);
-                    const prompt = generateOCPPrompt([result], document.uri.fsPath);
-                    
-                    const diagnostic = new vscode.Diagnostic(
-                        range,
-                        `OCP Violation: Method '${method.name}' in class '${classInfo.name}' has OCP Score=${ocpScore.toFixed(1)}. ${result.suggestion}\n\n--- Agent Prompt ---\n${prompt}`,
-                        vscode.DiagnosticSeverity.Warning
-                    );
-                    diagnostic.source = 'solid-ocp';
-                    diagnostic.code = 'OCP';
-                    diagnostics.push(diagnostic);
-                }
-            }
-        }
+    const existing = readBaselineFile(folder);
+    if (!existing) {
+        vscode.window.showWarningMessage(`No baseline found at ${getBaselinePath(folder)}. Run "Semgrep: Create Baseline" first.`);
+        return;
     }
     
-    const existingDiagnostics = diagnosticCollection.get(document.uri) || [];
-    const nonOcpDiagnostics = existingDiagnostics.filter(d => d.source !== 'solid-ocp');
-    diagnosticCollection.set(document.uri, [...nonOcpDiagnostics, ...diagnostics]);
+    const { entries: current, files: scannedFiles } = collectBaselineEntries(folder);
+    const currentCounts = new Map<string, number>();
+    for (const entry of current) {
+        const key = `${entry.path}\0${entry.fingerprint}`;
+        currentCounts.set(key, (currentCounts.get(key) || 0) + 1);
+    }
     
-    const violatingMethods = results.filter(r => r.ocpScore > threshold);
+    const settings = getSettings(folder.uri);
+    const disabledSources = SOLID_CHECKS.filter(c => !settings.get<boolean>(c.setting)).map(c => c.source);
     
-    if (!silent) {
-        if (violatingMethods.length > 0) {
-            const prompt = generateOCPPrompt(violatingMethods, document.uri.fsPath);
-            outputChannel.appendLine('\n=== OCP Analysis Result ===');
-            outputChannel.appendLine(prompt);
-            outputChannel.show();
-            
-            const action = await vscode.window.showWarningMessage(
-                `Found ${violatingMethods.length} method(s) potentially violating Open/Closed Principle.`,
-                'View Details',
-                'Copy Prompt'
-            );
-            
-            if (action === 'Copy Prompt') {
-                await vscode.env.clipboard.writeText(prompt);
-                vscode.window.showInformationMessage('OCP analysis prompt copied to clipboard.');
-            } else if (action === 'View Details') {
-                outputChannel.show();
-            }
-        } else {
-            vscode.window.showInformationMessage('All methods pass the Open/Closed Principle check.');
+    const kept: BaselineEntry[] = [];
+    for (const entry of existing.findings) {
+        const fileExists = fs.existsSync(path.join(folder.uri.fsPath, entry.path));
+        const source = entry.ruleId.split(':')[0];
+        if (fileExists && (!scannedFiles.has(entry.path) || disabledSources.includes(source))) {
+            kept.push(entry);
+            continue;
+        }
+        
+        const key = `${entry.path}\0${entry.fingerprint}`;
+        const count = currentCounts.get(key) || 0;
+        if (count > 0) {
+            currentCounts.set(key, count - 1);
+            kept.push(entry);
         }
-    } else if (violatingMethods.length > 0) {
-        outputChannel.appendLine(`OCP: Found ${violatingMethods.length} violation(s) in ${path.basename(document.uri.fsPath)}`);
     }
+    
+    await writeBaselineFile(folder, kept);
+    
+    const pruned = existing.findings.length - kept.length;
+    outputChannel.appendLine(`Baseline updated: pruned ${pruned} fixed finding(s), ${kept.length} remaining`);
+    vscode.window.showInformationMessage(`Semgrep: Baseline updated, pruned ${pruned} fixed finding(s). ${kept.length} finding(s) remain.`);
+}
+
+function getSarifLevel(severity: vscode.DiagnosticSeverity): string {
+    return ['error', 'warning', 'note', 'note'][severity];
 }
 
-function detectOCPViolations(methodText: string, startLine: number, languageId: string): OCPViolation[] {
-    if (languageId === 'python') {
-        return detectPythonOCPViolations(methodText, startLine);
-    } else if (languageId === 'typescript' || languageId === 'javascript' || languageId === 'typescriptreact' || languageId === 'javascriptreact') {
-        return detectTypeScriptOCPViolations(methodText, startLine);
+function getSarifBaseId(folder: vscode.WorkspaceFolder): string {
+    return folder.index === 0 ? '%SRCROOT%' : `%SRCROOT${folder.index}%`;
+}
+
+function getSarifArtifactLocation(uri: vscode.Uri): { uri: string; uriBaseId?: string } {
+    const folder = vscode.workspace.getWorkspaceFolder(uri);
+    if (!folder) {
+        return { uri: uri.toString() };
     }
-    return [];
+    return { uri: path.relative(folder.uri.fsPath, uri.fsPath).split(path.sep).join('/'), uriBaseId: getSarifBaseId(folder) };
 }
 
-function detectPythonOCPViolations(methodText: string, startLine: number): OCPViolation[] {
-    const violations: OCPViolation[] = [];
-    const lines = methodText.split('\n');
+function createSarifRule(diagnostic: vscode.Diagnostic): SarifRule {
+    const ruleId = getDiagnosticCode(diagnostic);
+    const finding = diagnosticFindings.get(diagnostic);
+    if (!finding) {
+        const check = SOLID_CHECKS.find(c => c.source === diagnostic.source);
+        return {
+            id: ruleId,
+            name: ruleId,
+            shortDescription: { text: SOLID_RULE_DESCRIPTIONS[ruleId] || ruleId },
+            defaultConfiguration: { level: getSarifLevel(diagnostic.severity) },
+            properties: { tags: ['solid', ...(check ? [check.principle] : [])] }
+        };
+    }
     
-    for (let i = 0; i < lines.length; i++) {
-        const line = lines[i];
-        const lineNumber = startLine + i;
-        
-        const isinstanceMatches = line.matchAll(/isinstance\s*\(\s*\w+\s*,\s*[\w.]+\s*\)/g);
-        for (const match of isinstanceMatches) {
-            violations.push({
-                line: lineNumber,
-                type: 'instanceof',
-                code: match[0]
-            });
-        }
-        
-        const typeEqualityMatches = line.matchAll(/type\s*\(\s*\w+\s*\)\s*[=!]=\s*[\w.]+/g);
-        for (const match of typeEqualityMatches) {
-            violations.push({
-                line: lineNumber,
-                type: 'type_equality',
-                code: match[0]
-            });
-        }
-        
-        const typeFieldMatches = line.matchAll(/\.\s*(type|kind|_type|__type__|category|variant)\s*[=!]=\s*["']?\w+["']?/g);
-        for (const match of typeFieldMatches) {
-            violations.push({
-                line: lineNumber,
-                type: 'type_field',
-                code: match[0]
-            });
-        }
-        
-        const matchCasePattern = /^\s*case\s+["']?\w+["']?\s*:/;
-        if (matchCasePattern.test(line)) {
-            violations.push({
-                line: lineNumber,
-                type: 'type_field',
-                code: line.trim()
-            });
+    const metadata = finding.extra.metadata || {};
+    const owasp = Array.isArray(metadata.owasp) ? metadata.owasp : metadata.owasp !== undefined ? [metadata.owasp] : [];
+    const tags = [
+        ...getFindingCwes(finding),
+        ...owasp.map(value => `OWASP ${value}`),
+        ...(metadata.category !== undefined ? [String(metadata.category)] : [])
+    ];
+    const properties: Record<string, unknown> = { tags };
+    for (const key of ['confidence', 'likelihood', 'impact']) {
+        if (metadata[key] !== undefined) {
+            properties[key] = metadata[key];
         }
     }
     
-    return violations;
+    return {
+        id: finding.check_id,
+        name: getShortRuleId(finding.check_id),
+        shortDescription: { text: finding.extra.message.split('\n')[0] },
+        helpUri: getFindingReferences(finding)[0],
+        defaultConfiguration: { level: getSarifLevel(diagnostic.severity) },
+        properties
+    };
 }
 
-function detectTypeScriptOCPViolations(methodText: string, startLine: number): OCPViolation[] {
-    const violations: OCPViolation[] = [];
-    const lines = methodText.split('\n');
+async function buildSarifLog(): Promise<SarifLog> {
+    const originalUriBaseIds: Record<string, { uri: string }> = {};
+    for (const folder of vscode.workspace.workspaceFolders || []) {
+        originalUriBaseIds[getSarifBaseId(folder)] = { uri: `${folder.uri.toString()}/` };
+    }
     
-    for (let i = 0; i < lines.length; i++) {
-        const line = lines[i];
-        const lineNumber = startLine + i;
-        
-        const instanceofMatches = line.matchAll(/\w+\s+instanceof\s+\w+/g);
-        for (const match of instanceofMatches) {
-            violations.push({
-                line: lineNumber,
-                type: 'instanceof',
-                code: match[0]
-            });
-        }
-        
-        const typeofMatches = line.matchAll(/typeof\s+\w+\s*[=!]==?\s*["']\w+["']/g);
-        for (const match of typeofMatches) {
-            if (!line.includes("typeof") || 
-                !(line.includes("'string'") || line.includes('"string"') ||
-                  line.includes("'number'") || line.includes('"number"') ||
-                  line.includes("'boolean'") || line.includes('"boolean"') ||
-                  line.includes("'undefined'") || line.includes('"undefined"'))) {
-                violations.push({
-                    line: lineNumber,
-                    type: 'typeof',
-                    code: match[0]
-                });
-            }
+    const config = getConfig();
+    const engineVersions = new Map<string, string | undefined>();
+    for (const engine of ENGINES) {
+        engineVersions.set(engine.id, parseSemgrepVersion(await getToolVersion(engine.getExecutable(config)))?.join('.'));
+    }
+    const runs = new Map<string, SarifRun>();
+    const ruleIndexes = new Map<string, Map<string, number>>();
+    const getRun = (source: string): SarifRun => {
+        let run = runs.get(source);
+        if (!run) {
+            const check = SOLID_CHECKS.find(c => c.source === source);
+            const engine = ENGINES.find(e => e.id === source) || ENGINES[0];
+            const driver = check
+                ? { name: source, fullName: `Semgrep Offline SOLID ${check.principle} check`, version: extensionVersion, rules: [] }
+                : { name: engine.id, informationUri: engine.informationUri, version: engineVersions.get(engine.id), rules: [] };
+            run = { tool: { driver }, originalUriBaseIds, results: [] };
+            runs.set(source, run);
+            ruleIndexes.set(source, new Map());
         }
-        
-        const typeFieldMatches = line.matchAll(/\.\s*(type|kind|_type|__type|category|variant|discriminator)\s*[=!]==?\s*["']?\w+["']?/g);
-        for (const match of typeFieldMatches) {
-            violations.push({
-                line: lineNumber,
-                type: 'type_field',
-                code: match[0]
-            });
+        return run;
+    };
+    
+    diagnosticCollection.forEach((uri, diagnostics) => {
+        if (uri.scheme !== 'file') {
+            return;
         }
+        const lines = getFileLines(uri) || [];
         
-        const switchCasePattern = /^\s*case\s+["']?\w+["']?\s*:/;
-        if (switchCasePattern.test(line)) {
-            const nearSwitch = methodText.substring(0, methodText.indexOf(line));
-            if (/switch\s*\(\s*\w+\.(type|kind|_type|category|variant|discriminator)\s*\)/i.test(nearSwitch)) {
-                violations.push({
-                    line: lineNumber,
-                    type: 'type_field',
-                    code: line.trim()
-                });
+        for (const diagnostic of diagnostics) {
+            if (!diagnostic.source || semgrepErrorDiagnostics.has(diagnostic)) {
+                continue;
             }
+            
+            const run = getRun(diagnostic.source);
+            const indexes = ruleIndexes.get(diagnostic.source)!;
+            const ruleId = getDiagnosticCode(diagnostic);
+            if (!indexes.has(ruleId)) {
+                indexes.set(ruleId, run.tool.driver.rules!.push(createSarifRule(diagnostic)) - 1);
+            }
+            
+            const { start, end } = diagnostic.range;
+            const metrics = diagnosticMetrics.get(diagnostic);
+            run.results!.push({
+                ruleId,
+                ruleIndex: indexes.get(ruleId),
+                level: getSarifLevel(diagnostic.severity),
+                message: { text: diagnostic.message },
+                locations: [{
+                    physicalLocation: {
+                        artifactLocation: getSarifArtifactLocation(uri),
+                        region: {
+                            startLine: start.line + 1,
+                            startColumn: start.character + 1,
+                            endLine: end.line + 1,
+                            endColumn: Math.min(end.character, lines[end.line]?.length ?? end.character) + 1
+                        }
+                    }
+                }],
+                partialFingerprints: { [SARIF_FINGERPRINT_KEY]: getFingerprint(diagnostic, lines).fingerprint },
+                properties: metrics ? { ...metrics } : undefined
+            });
         }
+    });
+    
+    return { $schema: SARIF_SCHEMA, version: '2.1.0', runs: [...runs.values()] };
+}
+
+async function exportSarif(): Promise<void> {
+    const log = await buildSarifLog();
+    const resultCount = log.runs.reduce((sum, run) => sum + (run.results?.length || 0), 0);
+    if (resultCount === 0) {
+        vscode.window.showInformationMessage('No semgrep or SOLID findings to export.');
+        return;
+    }
+    
+    const folder = vscode.workspace.workspaceFolders?.[0];
+    const target = await vscode.window.showSaveDialog({
+        defaultUri: folder ? vscode.Uri.joinPath(folder.uri, 'semgrep-findings.sarif') : undefined,
+        filters: { 'SARIF': ['sarif', 'json'] },
+        saveLabel: 'Export'
+    });
+    if (!target) {
+        return;
     }
     
-    return violations;
+    await fs.promises.writeFile(target.fsPath, JSON.stringify(log, null, 2) + '\n', 'utf8');
+    outputChannel.appendLine(`Exported ${resultCount} finding(s) from ${log.runs.length} analyzer(s) to ${target.fsPath}`);
+    const action = await vscode.window.showInformationMessage(`Semgrep: Exported ${resultCount} finding(s) as SARIF.`, 'Open File');
+    if (action === 'Open File') {
+        await vscode.window.showTextDocument(target);
+    }
 }
 
-function calculateTCD(violations: OCPViolation[], totalLines: number): number {
-    const typeChecks = violations.filter(v => v.type === 'instanceof' || v.type === 'type_equality' || v.type === 'typeof').length;
-    return totalLines > 0 ? typeChecks / totalLines : 0;
+function getImportedUris(): Set<string> {
+    return new Set([...importedResults.values()].flatMap(imported => [...imported.files.keys()]));
 }
 
-function calculateTFSC(violations: OCPViolation[]): number {
-    return violations.filter(v => v.type === 'type_field').length;
+function hasImportedDiagnostics(uri: vscode.Uri): boolean {
+    const key = uri.toString();
+    return [...importedResults.values()].some(imported => imported.files.has(key));
 }
 
-function calculateOCPScore(violations: OCPViolation[]): number {
-    let score = 0;
-    for (const v of violations) {
-        switch (v.type) {
-            case 'instanceof':
-                score += 2.0;
-                break;
-            case 'type_equality':
-                score += 2.0;
-                break;
-            case 'typeof':
-                score += 1.0;
-                break;
-            case 'type_field':
-                score += 1.5;
-                break;
-        }
+function getContentHash(uri: vscode.Uri): string | null {
+    const key = uri.toString();
+    let hash = contentHashes.get(key);
+    if (hash === undefined) {
+        const lines = getFileLines(uri);
+        hash = lines ? hashContent(lines.join('\n')) : null;
+        contentHashes.set(key, hash);
     }
-    return score;
+    return hash;
 }
 
-function generateOCPSuggestion(violations: OCPViolation[], ocpScore: number): string {
-    if (ocpScore <= 4) {
-        return 'Minor type-checking detected. Consider if polymorphism would be beneficial.';
+async function readContentHash(uri: vscode.Uri): Promise<string | null> {
+    const document = vscode.workspace.textDocuments.find(d => d.uri.toString() === uri.toString());
+    try {
+        const hash = hashContent(document ? document.getText() : await fs.promises.readFile(uri.fsPath, 'utf8'));
+        contentHashes.set(uri.toString(), hash);
+        return hash;
+    } catch {
+        return null;
     }
+}
+
+function hashContent(text: string): string {
+    return crypto.createHash('sha256').update(text).digest('hex');
+}
+
+function getImportedDiagnostics(uri: vscode.Uri): vscode.Diagnostic[] {
+    const key = uri.toString();
+    const diagnostics: vscode.Diagnostic[] = [];
+    let currentHash: string | null | undefined;
     
-    const instanceofCount = violations.filter(v => v.type === 'instanceof' || v.type === 'type_equality').length;
-    const typeFieldCount = violations.filter(v => v.type === 'type_field').length;
-    
-    if (instanceofCount > typeFieldCount) {
-        return 'Consider using polymorphism (Strategy/Visitor pattern) instead of instanceof checks.';
-    } else {
-        return 'Consider using polymorphism or discriminated unions instead of type-field switches.';
+    for (const imported of importedResults.values()) {
+        const file = imported.files.get(key);
+        if (!file) {
+            continue;
+        }
+        if (currentHash === undefined) {
+            currentHash = getContentHash(uri);
+        }
+        if (file.hash && file.hash !== currentHash) {
+            diagnostics.push(...file.diagnostics.map(d => copyDiagnostic(d, d.severity, `${d.message} [stale: file changed since this result was produced]`)));
+        } else {
+            diagnostics.push(...file.diagnostics);
+        }
     }
+    return diagnostics;
 }
 
-function generateOCPPrompt(violations: OCPResult[], filePath: string): string {
-    const fileName = path.basename(filePath);
+function getImportBaseFolder(importPath: string): string {
+    const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(importPath)) || vscode.workspace.workspaceFolders?.[0];
+    return folder ? folder.uri.fsPath : path.dirname(importPath);
+}
+
+function resolveSarifArtifactPath(location: { uri?: string; uriBaseId?: string }, run: SarifRun, baseFolder: string): string | null {
+    if (!location.uri) {
+        return null;
+    }
+    if (/^file:/i.test(location.uri)) {
+        return vscode.Uri.parse(location.uri).fsPath;
+    }
     
-    let prompt = `# Open/Closed Principle Violation Analysis\n\n`;
-    prompt += `**File:** ${fileName}\n\n`;
-    prompt += `The following method(s) may violate the Open/Closed Principle:\n\n`;
+    const relativePath = decodeURIComponent(location.uri);
+    const base = location.uriBaseId ? run.originalUriBaseIds?.[location.uriBaseId]?.uri : undefined;
+    if (base && /^file:/i.test(base) && fs.existsSync(path.join(vscode.Uri.parse(base).fsPath, relativePath))) {
+        return path.join(vscode.Uri.parse(base).fsPath, relativePath);
+    }
+    return path.isAbsolute(relativePath) ? relativePath : path.join(baseFolder, relativePath);
+}
+
+function sarifToFindings(log: SarifLog, baseFolder: string): { findings: SemgrepFinding[]; hashes: Map<string, string> } {
+    const findings: SemgrepFinding[] = [];
+    const hashes = new Map<string, string>();
+    const severities: Record<string, string> = { error: 'ERROR', warning: 'WARNING', note: 'INFO', none: 'INFO' };
     
-    for (const violation of violations) {
-        prompt += `## Class: ${violation.className}, Method: ${violation.methodName}\n`;
-        prompt += `- **OCP Score:** ${violation.ocpScore.toFixed(1)} (threshold exceeded)\n`;
-        prompt += `- **Type-Check Density (TCD):** ${(violation.tcd * 100).toFixed(1)}%\n`;
-        prompt += `- **Type-Field Switch Count (TFSC):** ${violation.tfsc}\n\n`;
-        
-        prompt += `### Detected Violations:\n`;
-        const groupedViolations = new Map<string, OCPViolation[]>();
-        for (const v of violation.violations) {
-            const key = v.type;
-            if (!groupedViolations.has(key)) {
-                groupedViolations.set(key, []);
+    for (const run of log.runs) {
+        for (const artifact of run.artifacts || []) {
+            const artifactPath = artifact.location && resolveSarifArtifactPath(artifact.location, run, baseFolder);
+            const hash = artifact.hashes?.['sha-256'];
+            if (artifactPath && hash) {
+                hashes.set(path.normalize(artifactPath), hash.toLowerCase());
             }
-            groupedViolations.get(key)!.push(v);
         }
         
-        for (const [type, items] of groupedViolations) {
-            const typeLabel = type === 'instanceof' ? 'isinstance/instanceof checks' :
-                             type === 'type_equality' ? 'type() equality checks' :
-                             type === 'typeof' ? 'typeof checks' : 'type-field conditionals';
-            prompt += `- **${typeLabel}:** ${items.length}\n`;
-            for (const item of items.slice(0, 3)) {
-                prompt += `  - Line ${item.line + 1}: \`${item.code}\`\n`;
-            }
-            if (items.length > 3) {
-                prompt += `  - ... and ${items.length - 3} more\n`;
+        const rules = run.tool.driver.rules || [];
+        for (const result of run.results || []) {
+            const rule = result.ruleIndex !== undefined ? rules[result.ruleIndex] : rules.find(r => r.id === result.ruleId);
+            const physicalLocation = result.locations?.[0]?.physicalLocation;
+            const filePath = physicalLocation?.artifactLocation && resolveSarifArtifactPath(physicalLocation.artifactLocation, run, baseFolder);
+            if (!filePath) {
+                continue;
             }
+            
+            const region = physicalLocation!.region || {};
+            const startLine = region.startLine || 1;
+            const endLine = region.endLine || startLine;
+            const lines = getFileLines(vscode.Uri.file(filePath));
+            const tags = ((rule?.properties?.tags as unknown[]) || []).map(String);
+            const metadata: Record<string, unknown> = {
+                ...rule?.properties,
+                ...result.properties,
+                cwe: tags.flatMap(tag => tag.match(/CWE-\d+/gi) || []),
+                owasp: tags.filter(tag => /^OWASP/i.test(tag)).map(tag => tag.replace(/^OWASP[-\s]*/i, '')),
+                references: rule?.helpUri ? [rule.helpUri] : undefined
+            };
+            
+            findings.push({
+                check_id: result.ruleId || rule?.id || 'unknown',
+                path: filePath,
+                start: { line: startLine, col: region.startColumn || 1 },
+                end: { line: endLine, col: region.endColumn || (lines?.[endLine - 1]?.length ?? 0) + 1 },
+                extra: {
+                    message: result.message.text || rule?.shortDescription?.text || rule?.id || '',
+                    severity: severities[result.level || rule?.defaultConfiguration?.level || 'warning'] || 'WARNING',
+                    metadata,
+                    lines: region.snippet?.text
+                }
+            });
         }
-        
-        prompt += `\n### Recommended Refactoring:\n`;
-        prompt += `${violation.suggestion}\n\n`;
-        prompt += `**Patterns to consider:**\n`;
-        prompt += `1. **Strategy Pattern:** Extract each type-specific behavior into separate strategy classes\n`;
-        prompt += `2. **Polymorphism:** Move behavior into subclasses and use method overriding\n`;
-        prompt += `3. **Visitor Pattern:** If operations vary independently from object structure\n`;
-        prompt += `4. **Factory + Registry:** Register handlers for each type dynamically\n\n`;
     }
     
-    prompt += `---\n`;
-    prompt += `**Action Required:** Refactor to eliminate type-checking conditionals. `;
-    prompt += `New types should be addable without modifying existing code.\n`;
-    
-    return prompt;
+    return { findings, hashes };
 }
 
-async function checkDependencyInversion(document: vscode.TextDocument, silent: boolean = false): Promise<void> {
-    const config = vscode.workspace.getConfiguration('semgrepOffline');
-    const threshold = config.get<number>('dipScoreThreshold') || 3;
+async function parseImportFile(importPath: string): Promise<{ findings: SemgrepFinding[]; hashes: Map<string, string> }> {
+    const parsed = JSON.parse(await fs.promises.readFile(importPath, 'utf8'));
+    const baseFolder = getImportBaseFolder(importPath);
     
-    const text = document.getText();
-    const classes = parseClassesWithConstructors(text, document.languageId);
+    if (Array.isArray(parsed?.runs)) {
+        return sarifToFindings(parsed as SarifLog, baseFolder);
+    }
+    if (Array.isArray(parsed?.results)) {
+        const findings = (parsed as SemgrepResult).results.map(finding => ({
+            ...finding,
+            path: path.isAbsolute(finding.path) ? finding.path : path.join(baseFolder, finding.path)
+        }));
+        return { findings, hashes: new Map() };
+    }
+    throw new Error(`${path.basename(importPath)} is neither a SARIF log nor semgrep JSON output`);
+}
+
+async function loadImportFile(importPath: string): Promise<number> {
+    const { findings, hashes } = await parseImportFile(importPath);
+    const origin = path.basename(importPath);
+    const files = new Map<string, ImportedFileResults>();
     
-    if (classes.length === 0) {
-        if (!silent) {
-            vscode.window.showInformationMessage('No classes found in the current file.');
+    for (const finding of findings) {
+        const uri = vscode.Uri.file(finding.path);
+        let file = files.get(uri.toString());
+        if (!file) {
+            file = { hash: hashes.get(path.normalize(finding.path)) ?? await readContentHash(uri), diagnostics: [] };
+            files.set(uri.toString(), file);
         }
-        return;
+        const diagnostic = createDiagnostic(finding);
+        diagnostic.message = `${diagnostic.message} [imported: ${origin}]`;
+        file.diagnostics.push(diagnostic);
     }
     
-    const results: DIPResult[] = [];
-    const diagnostics: vscode.Diagnostic[] = [];
+    const previous = importedResults.get(importPath);
+    importedResults.set(importPath, { origin, files });
+    for (const key of new Set([...files.keys(), ...(previous?.files.keys() || [])])) {
+        const uri = vscode.Uri.parse(key);
+        showDiagnostics(uri, getDiagnostics(uri));
+    }
     
-    for (const classInfo of classes) {
-        const dipResult = analyzeDIP(classInfo, text, document.languageId);
-        
-        if (dipResult.dipScore > 0) {
-            results.push(dipResult);
-            
-            if (dipResult.dipScore >= threshold) {
-                const range = new vscode.Range(classInfo.startLine, 0, classInfo.startLine, 100);
-                const prompt = generateDIPPrompt([dipResult], document.uri.fsPath);
-                
-                const diagnostic = new vscode.Diagnostic(
-                    range,
-                    `DIP Violation: Class '${classInfo.name}' has DIP Score=${dipResult.dipScore.toFixed(1)}, DII=${(dipResult.dii * 100).toFixed(0)}%. ${dipResult.suggestion}\n\n--- Agent Prompt ---\n${prompt}`,
-                    vscode.DiagnosticSeverity.Warning
-                );
-                diagnostic.source = 'solid-dip';
-                diagnostic.code = 'DIP';
-                diagnostics.push(diagnostic);
-            }
-        }
+    outputChannel.appendLine(`Imported ${findings.length} finding(s) in ${files.size} file(s) from ${importPath}`);
+    return findings.length;
+}
+
+function unloadImportFile(importPath: string): void {
+    const previous = importedResults.get(importPath);
+    if (!previous) {
+        return;
+    }
+    importedResults.delete(importPath);
+    for (const key of previous.files.keys()) {
+        const uri = vscode.Uri.parse(key);
+        showDiagnostics(uri, getDiagnostics(uri));
     }
+}
+
+async function importResults(): Promise<void> {
+    const selected = await vscode.window.showOpenDialog({
+        canSelectMany: true,
+        defaultUri: vscode.workspace.workspaceFolders?.[0]?.uri,
+        filters: { 'Semgrep JSON or SARIF': ['json', 'sarif'] },
+        openLabel: 'Import'
+    });
     
-    const existingDiagnostics = diagnosticCollection.get(document.uri) || [];
-    const nonDipDiagnostics = existingDiagnostics.filter(d => d.source !== 'solid-dip');
-    diagnosticCollection.set(document.uri, [...nonDipDiagnostics, ...diagnostics]);
+    for (const uri of selected || []) {
+        try {
+            const count = await loadImportFile(uri.fsPath);
+            vscode.window.showInformationMessage(`Semgrep: Imported ${count} finding(s) from ${path.basename(uri.fsPath)}.`);
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            vscode.window.showErrorMessage(`Semgrep: Failed to import ${path.basename(uri.fsPath)}: ${message}`);
+        }
+    }
+}
+
+function clearImportedResults(): void {
+    for (const importPath of [...importedResults.keys()]) {
+        unloadImportFile(importPath);
+    }
+    outputChannel.appendLine('Cleared imported results');
+}
+
+function getConfiguredImportPaths(): string[] {
+    const paths = new Set<string>();
+    for (const folder of vscode.workspace.workspaceFolders || []) {
+        for (const importPath of getSettings(folder.uri).get<string[]>('importResults') || []) {
+            paths.add(path.isAbsolute(importPath) ? importPath : path.join(folder.uri.fsPath, importPath));
+        }
+    }
+    return [...paths];
+}
+
+function setupImportWatchers(): void {
+    disposeImportWatchers();
     
-    const violatingClasses = results.filter(r => r.dipScore >= threshold);
+    const configured = getConfiguredImportPaths();
+    for (const importPath of watchedImportPaths) {
+        if (!configured.includes(importPath)) {
+            unloadImportFile(importPath);
+        }
+    }
+    watchedImportPaths.clear();
     
-    if (!silent) {
-        if (violatingClasses.length > 0) {
-            const prompt = generateDIPPrompt(violatingClasses, document.uri.fsPath);
-            outputChannel.appendLine('\n=== DIP Analysis Result ===');
-            outputChannel.appendLine(prompt);
-            outputChannel.show();
-            
-            const action = await vscode.window.showWarningMessage(
-                `Found ${violatingClasses.length} class(es) potentially violating Dependency Inversion Principle.`,
-                'View Details',
-                'Copy Prompt'
-            );
-            
-            if (action === 'Copy Prompt') {
-                await vscode.env.clipboard.writeText(prompt);
-                vscode.window.showInformationMessage('DIP analysis prompt copied to clipboard.');
-            } else if (action === 'View Details') {
-                outputChannel.show();
+    for (const importPath of configured) {
+        watchedImportPaths.add(importPath);
+        const reload = async () => {
+            try {
+                if (fs.existsSync(importPath)) {
+                    await loadImportFile(importPath);
+                } else {
+                    unloadImportFile(importPath);
+                }
+            } catch (error) {
+                const message = error instanceof Error ? error.message : String(error);
+                outputChannel.appendLine(`Failed to import ${importPath}: ${message}`);
             }
-        } else {
-            vscode.window.showInformationMessage('All classes pass the Dependency Inversion Principle check.');
-        }
-    } else if (violatingClasses.length > 0) {
-        outputChannel.appendLine(`DIP: Found ${violatingClasses.length} violation(s) in ${path.basename(document.uri.fsPath)}`);
+        };
+        
+        const watcher = vscode.workspace.createFileSystemWatcher(
+            new vscode.RelativePattern(vscode.Uri.file(path.dirname(importPath)), path.basename(importPath))
+        );
+        const onImportChanged = () => debounce(`import:${importPath}`, reload, 500);
+        watcher.onDidChange(onImportChanged);
+        watcher.onDidCreate(onImportChanged);
+        watcher.onDidDelete(onImportChanged);
+        importWatchers.push(watcher);
+        reload();
     }
 }
 
-interface ClassWithConstructor extends ClassInfo {
-    constructorStartLine: number;
-    constructorEndLine: number;
-    constructorParams: string[];
+function disposeImportWatchers(): void {
+    for (const watcher of importWatchers) {
+        watcher.dispose();
+    }
+    importWatchers = [];
 }
 
-function parseClassesWithConstructors(text: string, languageId: string): ClassWithConstructor[] {
-    const baseClasses = parseClasses(text, languageId);
-    const lines = text.split('\n');
-    const result: ClassWithConstructor[] = [];
-    
-    for (const classInfo of baseClasses) {
-        const classWithCtor: ClassWithConstructor = {
-            ...classInfo,
-            constructorStartLine: -1,
-            constructorEndLine: -1,
-            constructorParams: []
-        };
-        
-        if (languageId === 'python') {
-            const initMethod = classInfo.methods.find(m => m.name === '__init__');
-            if (initMethod) {
-                classWithCtor.constructorStartLine = initMethod.startLine;
-                classWithCtor.constructorEndLine = initMethod.endLine;
-                const initLine = lines[initMethod.startLine];
-                const paramMatch = initLine.match(/def\s+__init__\s*\(\s*self\s*,?\s*([^)]*)\)/);
-                if (paramMatch && paramMatch[1]) {
-                    classWithCtor.constructorParams = paramMatch[1].split(',').map(p => p.trim()).filter(p => p.length > 0);
-                }
+async function scanChangedFiles(): Promise<void> {
+    const folders = vscode.workspace.workspaceFolders;
+    if (!folders || folders.length === 0) {
+        vscode.window.showWarningMessage('No workspace folder open');
+        return;
+    }
+    
+    const tokenSource = new vscode.CancellationTokenSource();
+    activeScanSources.add(tokenSource);
+    
+    let scannedCount = 0;
+    
+    try {
+        for (const folder of folders) {
+            const diffInfo = await refreshDiffInfo(folder);
+            if (!diffInfo) {
+                continue;
             }
-        } else if (languageId === 'typescript' || languageId === 'javascript' || languageId === 'typescriptreact' || languageId === 'javascriptreact') {
-            for (let i = classInfo.startLine; i <= classInfo.endLine; i++) {
-                const line = lines[i];
-                if (/^\s*constructor\s*\(/.test(line)) {
-                    classWithCtor.constructorStartLine = i;
-                    let braceCount = 0;
-                    let foundStart = false;
-                    for (let j = i; j <= classInfo.endLine; j++) {
-                        const ctorLine = lines[j];
-                        for (const char of ctorLine) {
-                            if (char === '{') {
-                                foundStart = true;
-                                braceCount++;
-                            } else if (char === '}') {
-                                braceCount--;
-                            }
-                        }
-                        if (foundStart && braceCount === 0) {
-                            classWithCtor.constructorEndLine = j;
-                            break;
-                        }
-                    }
-                    const ctorMatch = line.match(/constructor\s*\(([^)]*)\)/);
-                    if (ctorMatch && ctorMatch[1]) {
-                        classWithCtor.constructorParams = ctorMatch[1].split(',').map(p => p.trim()).filter(p => p.length > 0);
-                    }
-                    break;
+            
+            const supportedLanguages = getSettings(folder.uri).get<string[]>('languages') || ['python'];
+            const extensions = [...new Set(supportedLanguages.map(l => LANGUAGE_EXTENSIONS[l]).filter(Boolean))];
+            const changedPaths = [...diffInfo.files.keys()].filter(p => extensions.some(e => p.endsWith(e)));
+            
+            const closedPaths = new Set<string>();
+            for (const filePath of changedPaths) {
+                const document = vscode.workspace.textDocuments.find(d => d.uri.scheme === 'file' && path.normalize(d.uri.fsPath) === filePath);
+                if (!document) {
+                    closedPaths.add(filePath);
+                } else if (shouldScanDocument(document, supportedLanguages)) {
+                    scanFile(document, true);
+                    runSolidChecks(document);
+                    scannedCount++;
                 }
             }
+            
+            if (closedPaths.size > 0) {
+                const targets = (await findWorkspaceTargets(folder, tokenSource.token))
+                    .filter(uri => closedPaths.has(path.normalize(uri.fsPath)));
+                await scanWorkspaceFolder(folder, targets, tokenSource.token, () => undefined);
+                await runSolidChecksOnFiles(folder, targets);
+                scannedCount += targets.length;
+            }
+            
+            outputChannel.appendLine(`${folder.name}: ${diffInfo.files.size} file(s) changed against ${diffInfo.baseRef}`);
         }
         
-        result.push(classWithCtor);
+        vscode.window.showInformationMessage(`Semgrep: Scanned ${scannedCount} changed file(s)`);
+    } catch (error) {
+        if (error instanceof vscode.CancellationError) {
+            outputChannel.appendLine('Changed files scan cancelled');
+            return;
+        }
+        setStatusError(describeScanError(error), `${error}`);
+        outputChannel.appendLine(`Error scanning changed files: ${error}`);
+        vscode.window.showErrorMessage(`Semgrep changed files scan failed: ${error}`);
+    } finally {
+        activeScanSources.delete(tokenSource);
+        tokenSource.dispose();
     }
-    
-    return result;
 }
 
-function analyzeDIP(classInfo: ClassWithConstructor, text: string, languageId: string): DIPResult {
-    const violations: DIPViolation[] = [];
-    const lines = text.split('\n');
+async function runSolidChecksOnFiles(folder: vscode.WorkspaceFolder, uris: vscode.Uri[]): Promise<void> {
+    const checks = SOLID_CHECKS.filter(c => getSettings(folder.uri).get<boolean>(c.setting));
+    if (checks.length === 0) {
+        return;
+    }
+    const thresholds = getSolidThresholds(folder.uri);
+    const maxFileSize = getConfig(folder.uri).maxFileSize;
     
-    let constructorInstantiations = 0;
-    let methodInstantiations = 0;
-    const instantiatedClasses = new Set<string>();
-    
-    if (languageId === 'python') {
-        if (classInfo.constructorStartLine >= 0) {
-            for (let i = classInfo.constructorStartLine; i <= classInfo.constructorEndLine; i++) {
-                const line = lines[i];
-                const instantiations = detectPythonInstantiations(line);
-                for (const inst of instantiations) {
-                    if (!isExcludedClass(inst, languageId)) {
-                        constructorInstantiations++;
-                        instantiatedClasses.add(inst);
-                        violations.push({
-                            line: i,
-                            type: 'constructor_instantiation',
-                            code: line.trim(),
-                            className: inst
-                        });
-                    }
-                }
+    for (const uri of uris.filter(u => getSolidLanguageId(u.fsPath))) {
+        const source = await readSolidSource(uri, maxFileSize);
+        if (source) {
+            for (const check of checks) {
+                setSolidDiagnostics(uri, check.source, check.analyze(source.text, source.languageId, uri.fsPath, thresholds).findings);
             }
         }
+    }
+}
+
+async function refreshDiffInfo(folder: vscode.WorkspaceFolder): Promise<DiffInfo | null> {
+    const baseRef = getSettings(folder.uri).get<string>('diffBaseRef') || 'main';
+    const cwd = folder.uri.fsPath;
+    const warningKey = `${folder.uri.toString()}\0${baseRef}`;
+    
+    try {
+        const mergeBase = (await runGit(['merge-base', 'HEAD', baseRef], cwd)).trim();
+        const diff = await runGit([
+            '-c', 'core.quotePath=false', 'diff', '--unified=0', '--no-color', '--no-ext-diff', '--relative',
+            '--src-prefix=a/', '--dst-prefix=b/', mergeBase
+        ], cwd);
+        const untracked = await runGit(['ls-files', '-z', '--others', '--exclude-standard'], cwd);
         
-        for (const method of classInfo.methods) {
-            if (method.name === '__init__') continue;
-            for (let i = method.startLine; i <= method.endLine; i++) {
-                const line = lines[i];
-                const instantiations = detectPythonInstantiations(line);
-                for (const inst of instantiations) {
-                    if (!isExcludedClass(inst, languageId)) {
-                        methodInstantiations++;
-                        instantiatedClasses.add(inst);
-                        violations.push({
-                            line: i,
-                            type: 'method_instantiation',
-                            code: line.trim(),
-                            className: inst
-                        });
-                    }
-                }
+        const files: Map<string, LineRange[] | 'all'> = parseUnifiedDiff(diff, cwd);
+        for (const relativePath of untracked.split('\0')) {
+            if (relativePath) {
+                files.set(path.normalize(path.join(cwd, relativePath)), 'all');
             }
         }
-    } else if (languageId === 'typescript' || languageId === 'javascript' || languageId === 'typescriptreact' || languageId === 'javascriptreact') {
-        if (classInfo.constructorStartLine >= 0) {
-            for (let i = classInfo.constructorStartLine; i <= classInfo.constructorEndLine; i++) {
-                const line = lines[i];
-                const instantiations = detectTypeScriptInstantiations(line);
-                for (const inst of instantiations) {
-                    if (!isExcludedClass(inst, languageId)) {
-                        constructorInstantiations++;
-                        instantiatedClasses.add(inst);
-                        violations.push({
-                            line: i,
-                            type: 'constructor_instantiation',
-                            code: line.trim(),
-                            className: inst
-                        });
-                    }
-                }
+        
+        const diffInfo: DiffInfo = { baseRef, files };
+        diffInfoCache.set(folder.uri.toString(), diffInfo);
+        diffWarningsShown.delete(warningKey);
+        refreshDisplayedDiagnostics();
+        return diffInfo;
+    } catch (error) {
+        diffInfoCache.delete(folder.uri.toString());
+        outputChannel.appendLine(`Failed to diff ${folder.name} against ${baseRef}: ${error}`);
+        if (diffWarningsShown.has(warningKey)) {
+            return null;
+        }
+        diffWarningsShown.add(warningKey);
+        vscode.window.showWarningMessage(`Semgrep: Could not diff '${folder.name}' against '${baseRef}'. See the Semgrep Offline output for details.`);
+        return null;
+    }
+}
+
+function parseUnifiedDiff(diff: string, cwd: string): Map<string, LineRange[]> {
+    const files = new Map<string, LineRange[]>();
+    let currentRanges: LineRange[] | null = null;
+    
+    for (const line of diff.split('\n')) {
+        if (line.startsWith('+++ ')) {
+            const target = unquoteGitPath(line.substring(4).replace(/\t$/, ''));
+            if (target === '/dev/null') {
+                currentRanges = null;
+                continue;
             }
+            currentRanges = [];
+            files.set(path.normalize(path.join(cwd, target.replace(/^b\//, ''))), currentRanges);
+            continue;
         }
         
-        for (const method of classInfo.methods) {
-            for (let i = method.startLine; i <= method.endLine; i++) {
-                const line = lines[i];
-                const instantiations = detectTypeScriptInstantiations(line);
-                for (const inst of instantiations) {
-                    if (!isExcludedClass(inst, languageId)) {
-                        methodInstantiations++;
-                        instantiatedClasses.add(inst);
-                        violations.push({
-                            line: i,
-                            type: 'method_instantiation',
-                            code: line.trim(),
-                            className: inst
-                        });
-                    }
-                }
-            }
+        const hunkMatch = line.match(/^@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/);
+        if (hunkMatch && currentRanges) {
+            const start = parseInt(hunkMatch[1], 10) - 1;
+            const count = hunkMatch[2] !== undefined ? parseInt(hunkMatch[2], 10) : 1;
+            currentRanges.push({ start: Math.max(0, start), end: Math.max(0, start + Math.max(count, 1) - 1) });
         }
     }
     
-    const injectedDependencies = classInfo.constructorParams.length;
-    const totalDependencies = injectedDependencies + instantiatedClasses.size;
-    const dii = totalDependencies > 0 ? injectedDependencies / totalDependencies : 1;
-    
-    const dipScore = (constructorInstantiations * 2.0) + (methodInstantiations * 1.5);
-    
-    return {
-        className: classInfo.name,
-        startLine: classInfo.startLine,
-        constructorInstantiations,
-        methodInstantiations,
-        injectedDependencies,
-        totalDependencies,
-        dii,
-        dipScore,
-        violations,
-        suggestion: generateDIPSuggestion(constructorInstantiations, methodInstantiations, dii)
-    };
+    return files;
 }
 
-function detectPythonInstantiations(line: string): string[] {
-    const results: string[] = [];
-    const pattern = /([A-Z][a-zA-Z0-9_]*)\s*\(/g;
-    let match;
-    while ((match = pattern.exec(line)) !== null) {
-        if (!line.includes(`def ${match[1]}`) && !line.includes(`class ${match[1]}`)) {
-            results.push(match[1]);
+function unquoteGitPath(value: string): string {
+    if (!value.startsWith('"') || !value.endsWith('"')) {
+        return value;
+    }
+    
+    const escapes: Record<string, number> = { a: 7, b: 8, t: 9, n: 10, v: 11, f: 12, r: 13, '"': 34, '\\': 92 };
+    const bytes: number[] = [];
+    const inner = value.slice(1, -1);
+    for (let i = 0; i < inner.length; i++) {
+        if (inner[i] !== '\\') {
+            const char = String.fromCodePoint(inner.codePointAt(i)!);
+            bytes.push(...Buffer.from(char, 'utf8'));
+            i += char.length - 1;
+            continue;
+        }
+        const octal = inner.slice(i + 1, i + 4).match(/^[0-7]{3}/);
+        if (octal) {
+            bytes.push(parseInt(octal[0], 8));
+            i += 3;
+        } else {
+            bytes.push(escapes[inner[i + 1]] ?? inner.charCodeAt(i + 1));
+            i++;
         }
     }
-    return results;
+    return Buffer.from(bytes).toString('utf8');
 }
 
-function detectTypeScriptInstantiations(line: string): string[] {
-    const results: string[] = [];
-    const pattern = /new\s+([A-Z][a-zA-Z0-9_]*)\s*\(/g;
-    let match;
-    while ((match = pattern.exec(line)) !== null) {
-        results.push(match[1]);
-    }
-    return results;
+function runGit(args: string[], cwd: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const proc = spawn('git', args, { cwd });
+        let stdout = '';
+        let stderr = '';
+        
+        proc.stdout.on('data', (data) => {
+            stdout += data.toString();
+        });
+        
+        proc.stderr.on('data', (data) => {
+            stderr += data.toString();
+        });
+        
+        proc.on('close', (code) => {
+            if (code === 0) {
+                resolve(stdout);
+            } else {
+                reject(new Error(`git ${args[0]} failed: ${stderr.trim() || `exit code ${code}`}`));
+            }
+        });
+        
+        proc.on('error', (error) => {
+            reject(new Error(`Failed to run git: ${error.message}`));
+        });
+    });
 }
 
-function isExcludedClass(className: string, languageId: string): boolean {
-    const pythonExclusions = ['Exception', 'Error', 'ValueError', 'TypeError', 'RuntimeError', 'KeyError', 'AttributeError', 'IndexError', 'StopIteration', 'Dict', 'List', 'Set', 'Tuple', 'Optional', 'Union', 'Any', 'Callable', 'Type', 'Literal'];
-    const tsExclusions = ['Error', 'TypeError', 'RangeError', 'SyntaxError', 'Array', 'Object', 'Map', 'Set', 'WeakMap', 'WeakSet', 'Promise', 'Date', 'RegExp', 'URL', 'URLSearchParams', 'FormData', 'Headers', 'Request', 'Response', 'Event', 'CustomEvent', 'EventEmitter'];
-    
-    if (languageId === 'python') {
-        return pythonExclusions.includes(className);
-    } else {
-        return tsExclusions.includes(className);
-    }
+function shouldScanDocument(document: vscode.TextDocument, supportedLanguages: string[]): boolean {
+    return isScannableLanguage(document, supportedLanguages) && isDocumentIncluded(document);
+}
+
+function isScannableLanguage(document: vscode.TextDocument, supportedLanguages: string[]): boolean {
+    return supportedLanguages.includes(document.languageId) && SCANNABLE_SCHEMES.includes(document.uri.scheme);
 }
 
-function generateDIPSuggestion(constructorInst: number, methodInst: number, dii: number): string {
-    if (constructorInst === 0 && methodInst === 0) {
-        return 'Class follows Dependency Inversion Principle.';
+function isDocumentIncluded(document: vscode.TextDocument): boolean {
+    const config = getConfig(document.uri);
+    
+    if (config.maxFileSize > 0 && Buffer.byteLength(document.getText(), 'utf8') > config.maxFileSize) {
+        return false;
+    }
+    
+    if (document.uri.scheme !== 'file') {
+        return true;
     }
     
-    const suggestions: string[] = [];
+    const folder = vscode.workspace.getWorkspaceFolder(document.uri);
+    const matchesGlob = (glob: string) => vscode.languages.match(
+        { pattern: folder ? new vscode.RelativePattern(folder, glob) : glob },
+        document
+    ) > 0;
     
-    if (constructorInst > 0) {
-        suggestions.push(`Inject ${constructorInst} dependency(ies) via constructor parameters instead of instantiating directly`);
+    if (config.include.length > 0 && !config.include.some(matchesGlob)) {
+        return false;
+    }
+    if (config.exclude.some(matchesGlob)) {
+        return false;
+    }
+    if (config.respectIgnoreFiles && folder && getIgnoreFileGlobs(folder).some(matchesGlob)) {
+        return false;
+    }
+    if (folder && getSettings(document.uri).get<boolean>('diffAware')) {
+        const diffInfo = diffInfoCache.get(folder.uri.toString());
+        if (diffInfo && !diffInfo.files.has(path.normalize(document.uri.fsPath))) {
+            return false;
+        }
     }
     
-    if (methodInst > 0) {
-        suggestions.push(`Consider injecting ${methodInst} dependency(ies) or using factory pattern`);
+    return true;
+}
+
+function getIgnoreFileGlobs(folder: vscode.WorkspaceFolder): string[] {
+    const key = folder.uri.toString();
+    let globs = ignoreGlobCache.get(key);
+    if (globs) {
+        return globs;
     }
     
-    if (dii < 0.5) {
-        suggestions.push('Low DII indicates most dependencies are created internally');
+    globs = [];
+    for (const ignoreFile of IGNORE_FILES) {
+        let content: string;
+        try {
+            content = fs.readFileSync(path.join(folder.uri.fsPath, ignoreFile), 'utf8');
+        } catch {
+            continue;
+        }
+        for (const rawLine of content.split('\n')) {
+            const line = rawLine.trim();
+            if (!line || line.startsWith('#') || line.startsWith(':')) {
+                continue;
+            }
+            if (line.startsWith('!')) {
+                outputChannel.appendLine(`${folder.name}/${ignoreFile}: negated pattern "${line}" is not supported and was skipped`);
+                continue;
+            }
+            globs.push(...ignorePatternToGlobs(line));
+        }
     }
     
-    return suggestions.join('. ') + '.';
+    ignoreGlobCache.set(key, globs);
+    return globs;
+}
+
+function ignorePatternToGlobs(pattern: string): string[] {
+    const anchored = pattern.startsWith('/') || pattern.slice(0, -1).includes('/');
+    const trimmed = pattern.replace(/^\//, '').replace(/\/$/, '');
+    const base = anchored ? trimmed : `**/${trimmed}`;
+    return pattern.endsWith('/') ? [`${base}/**`] : [base, `${base}/**`];
 }
 
-function generateDIPPrompt(violations: DIPResult[], filePath: string): string {
-    const fileName = path.basename(filePath);
+async function prepareScanTarget(document: vscode.TextDocument): Promise<ScanTarget> {
+    if (document.uri.scheme === 'file' && !document.isDirty) {
+        return { targetPath: document.uri.fsPath, cleanup: async () => {} };
+    }
     
-    let prompt = `# Dependency Inversion Principle Violation Analysis\n\n`;
-    prompt += `**File:** ${fileName}\n\n`;
-    prompt += `The following class(es) may violate the Dependency Inversion Principle:\n\n`;
+    let fileName = path.basename(document.uri.fsPath) || 'untitled';
+    if (!path.extname(fileName)) {
+        fileName += LANGUAGE_EXTENSIONS[document.languageId] || '';
+    }
     
-    for (const violation of violations) {
-        prompt += `## Class: ${violation.className}\n`;
-        prompt += `- **DIP Score:** ${violation.dipScore.toFixed(1)} (threshold exceeded)\n`;
-        prompt += `- **Dependency Injection Index (DII):** ${(violation.dii * 100).toFixed(0)}% (100% = all injected)\n`;
-        prompt += `- **Constructor Instantiations:** ${violation.constructorInstantiations}\n`;
-        prompt += `- **Method Instantiations:** ${violation.methodInstantiations}\n`;
-        prompt += `- **Injected Dependencies:** ${violation.injectedDependencies}\n\n`;
-        
-        if (violation.violations.length > 0) {
-            prompt += `### Direct Instantiations Found:\n`;
-            const ctorViolations = violation.violations.filter(v => v.type === 'constructor_instantiation');
-            const methodViolations = violation.violations.filter(v => v.type === 'method_instantiation');
-            
-            if (ctorViolations.length > 0) {
-                prompt += `\n**In Constructor:**\n`;
-                for (const v of ctorViolations.slice(0, 5)) {
-                    prompt += `- Line ${v.line + 1}: \`${v.className}\` - \`${v.code}\`\n`;
-                }
-                if (ctorViolations.length > 5) {
-                    prompt += `- ... and ${ctorViolations.length - 5} more\n`;
-                }
-            }
-            
-            if (methodViolations.length > 0) {
-                prompt += `\n**In Methods:**\n`;
-                for (const v of methodViolations.slice(0, 5)) {
-                    prompt += `- Line ${v.line + 1}: \`${v.className}\` - \`${v.code}\`\n`;
-                }
-                if (methodViolations.length > 5) {
-                    prompt += `- ... and ${methodViolations.length - 5} more\n`;
-                }
+    const tempDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'semgrep-offline-'));
+    const targetPath = path.join(tempDir, fileName);
+    await fs.promises.writeFile(targetPath, document.getText(), 'utf8');
+    
+    return {
+        targetPath,
+        cleanup: async () => {
+            try {
+                await fs.promises.rm(tempDir, { recursive: true, force: true });
+            } catch (error) {
+                outputChannel.appendLine(`Failed to remove temp dir ${tempDir}: ${error}`);
             }
         }
-        
-        prompt += `\n### Recommended Refactoring:\n`;
-        prompt += `${violation.suggestion}\n\n`;
-        prompt += `**Steps to fix:**\n`;
-        prompt += `1. Create abstractions (interfaces/protocols) for each concrete dependency\n`;
-        prompt += `2. Add constructor parameters to receive dependencies\n`;
-        prompt += `3. Have concrete classes implement the abstractions\n`;
-        prompt += `4. Inject dependencies from calling code or use a DI container\n\n`;
+    };
+}
+
+function getConfig(scope?: vscode.Uri): SemgrepConfig {
+    const config = getSettings(scope);
+    const workspaceFolder = getWorkspaceFolderFor(scope)?.uri.fsPath || '';
+    
+    const rulesPaths: string[] = [];
+    
+    let userRulesPath = config.get<string>('rulesPath') || 'semgrep_rules.yaml';
+    if (!path.isAbsolute(userRulesPath) && workspaceFolder) {
+        userRulesPath = path.join(workspaceFolder, userRulesPath);
+    }
+    rulesPaths.push(userRulesPath);
+    
+    const enableSecurityRules = config.get<boolean>('enableSecurityRules') ?? false;
+    if (enableSecurityRules && extensionPath) {
+        for (const ruleFile of SECURITY_RULE_FILES) {
+            rulesPaths.push(path.join(extensionPath, 'rules', 'security', ruleFile));
+        }
     }
     
-    prompt += `---\n`;
-    prompt += `**Action Required:** Refactor to inject dependencies instead of creating them internally. `;
-    prompt += `High-level modules should depend on abstractions, not concrete implementations.\n`;
+    const semgrepPath = resolveToolInstallation('semgrep', config.get<string>('semgrepPath') || 'semgrep', workspaceFolder).path;
+    const banditPath = resolveToolInstallation('bandit', config.get<string>('banditPath') || 'bandit', workspaceFolder).path;
+    const ruffPath = resolveToolInstallation('ruff', config.get<string>('ruffPath') || 'ruff', workspaceFolder).path;
+    const ruffSelect = config.get<string[]>('ruffSelect') || [];
+    
+    const useCache = config.get<boolean>('useCache') ?? true;
+    const include = config.get<string[]>('include') || [];
+    const exclude = config.get<string[]>('exclude') || [];
+    const respectIgnoreFiles = config.get<boolean>('respectIgnoreFiles') ?? false;
+    const maxFileSize = config.get<number>('maxFileSize') ?? 1000000;
+    const jobs = Math.max(1, config.get<number>('jobs') ?? 1);
+    const ruleTimeout = config.get<number>('ruleTimeout') ?? 5;
+    const maxMemory = config.get<number>('maxMemory') ?? 0;
     
-    return prompt;
+    return { semgrepPath, banditPath, ruffPath, ruffSelect, rulesPaths, useCache, enableSecurityRules, workspaceFolder, include, exclude, respectIgnoreFiles, maxFileSize, jobs, ruleTimeout, maxMemory };
 }
 
-async function checkInterfaceSegregation(document: vscode.TextDocument, silent: boolean = false): Promise<void> {
-    const config = vscode.workspace.getConfiguration('semgrepOffline');
-    const fatInterfaceThreshold = config.get<number>('ispFatInterfaceThreshold') || 5;
-    const sirThreshold = config.get<number>('ispSirThreshold') || 0.3;
+function resolveToolInstallation(tool: string, configuredPath: string, workspaceFolder: string): ToolInstallation {
+    if (configuredPath !== tool) {
+        return {
+            path: !path.isAbsolute(configuredPath) && /[\\/]/.test(configuredPath) && workspaceFolder ? path.join(workspaceFolder, configuredPath) : configuredPath,
+            source: `semgrepOffline.${tool}Path setting`
+        };
+    }
     
-    const text = document.getText();
-    const results: ISPResult[] = [];
-    const diagnostics: vscode.Diagnostic[] = [];
+    const key = `${tool}\0${workspaceFolder}`;
+    let installation = toolInstallations.get(key);
+    if (!installation) {
+        installation = discoverTool(tool, workspaceFolder);
+        toolInstallations.set(key, installation);
+    }
+    return installation;
+}
+
+function discoverTool(tool: string, workspaceFolder: string): ToolInstallation {
+    const executable = process.platform === 'win32' ? `${tool}.exe` : tool;
+    const binDirectory = process.platform === 'win32' ? 'Scripts' : 'bin';
+    const candidates: ToolInstallation[] = [];
     
-    const interfaces = parseInterfaces(text, document.languageId);
-    for (const iface of interfaces) {
-        if (iface.abstractMethodCount > fatInterfaceThreshold) {
-            const result: ISPResult = {
-                className: iface.name,
-                startLine: iface.startLine,
-                isInterface: true,
-                abstractMethodCount: iface.abstractMethodCount,
-                emptyImplementations: 0,
-                notImplementedErrors: 0,
-                ifs: iface.abstractMethodCount,
-                sir: 0,
-                ispScore: iface.abstractMethodCount,
-                violations: [{
-                    line: iface.startLine,
-                    type: 'fat_interface',
-                    methodName: '',
-                    code: `Interface has ${iface.abstractMethodCount} abstract methods`
-                }],
-                suggestion: `Consider splitting into ${Math.ceil(iface.abstractMethodCount / 3)} smaller interfaces with ~3 methods each.`
-            };
-            results.push(result);
-            
-            const range = new vscode.Range(iface.startLine, 0, iface.startLine, 100);
-            const prompt = generateISPPrompt([result], document.uri.fsPath);
-            
-            const diagnostic = new vscode.Diagnostic(
-                range,
-                `ISP Violation: Interface '${iface.name}' has ${iface.abstractMethodCount} abstract methods (fat interface). ${result.suggestion}\n\n--- Agent Prompt ---\n${prompt}`,
-                vscode.DiagnosticSeverity.Warning
-            );
-            diagnostic.source = 'solid-isp';
-            diagnostic.code = 'ISP-FAT';
-            diagnostics.push(diagnostic);
+    if (workspaceFolder) {
+        for (const venv of VIRTUALENV_DIRECTORIES) {
+            candidates.push({ path: path.join(workspaceFolder, venv, binDirectory, executable), source: `workspace virtualenv (${venv})` });
         }
     }
+    const interpreter = pythonInterpreters.get(workspaceFolder);
+    if (interpreter) {
+        candidates.push({ path: path.join(path.dirname(interpreter), executable), source: `Python interpreter (${interpreter})` });
+    }
+    for (const directory of (process.env.PATH || '').split(path.delimiter).filter(Boolean)) {
+        candidates.push({ path: path.join(directory, executable), source: 'PATH' });
+    }
+    candidates.push({ path: path.join(process.env.PIPX_BIN_DIR || path.join(os.homedir(), '.local', 'bin'), executable), source: 'pipx' });
     
-    const implementations = parseImplementations(text, document.languageId);
-    for (const impl of implementations) {
-        if (impl.emptyMethods.length > 0 || impl.notImplementedMethods.length > 0) {
-            const totalMethods = impl.totalMethods;
-            const stubMethods = impl.emptyMethods.length + impl.notImplementedMethods.length;
-            const sir = totalMethods > 0 ? stubMethods / totalMethods : 0;
-            
-            if (sir >= sirThreshold || stubMethods >= 2) {
-                const violations: ISPViolation[] = [];
-                
-                for (const m of impl.emptyMethods) {
-                    violations.push({
-                        line: m.line,
-                        type: 'empty_implementation',
-                        methodName: m.name,
-                        code: m.code
-                    });
-                }
-                
-                for (const m of impl.notImplementedMethods) {
-                    violations.push({
-                        line: m.line,
-                        type: 'not_implemented_error',
-                        methodName: m.name,
-                        code: m.code
-                    });
-                }
-                
-                const result: ISPResult = {
-                    className: impl.name,
-                    startLine: impl.startLine,
-                    isInterface: false,
-                    abstractMethodCount: 0,
-                    emptyImplementations: impl.emptyMethods.length,
-                    notImplementedErrors: impl.notImplementedMethods.length,
-                    ifs: 0,
-                    sir,
-                    ispScore: stubMethods * 1.5,
-                    violations,
-                    suggestion: generateISPSuggestion(impl.emptyMethods.length, impl.notImplementedMethods.length, sir)
-                };
-                results.push(result);
-                
-                const range = new vscode.Range(impl.startLine, 0, impl.startLine, 100);
-                const prompt = generateISPPrompt([result], document.uri.fsPath);
-                
-                const diagnostic = new vscode.Diagnostic(
-                    range,
-                    `ISP Violation: Class '${impl.name}' has ${stubMethods} stub method(s) (SIR=${(sir * 100).toFixed(0)}%). ${result.suggestion}\n\n--- Agent Prompt ---\n${prompt}`,
-                    vscode.DiagnosticSeverity.Warning
-                );
-                diagnostic.source = 'solid-isp';
-                diagnostic.code = 'ISP-STUB';
-                diagnostics.push(diagnostic);
+    for (const candidate of candidates) {
+        try {
+            if (fs.statSync(candidate.path).isFile()) {
+                return candidate;
             }
+        } catch {
+            // Not installed here, try the next location
         }
     }
+    return { path: tool, source: 'not found' };
+}
+
+async function refreshPythonInterpreters(context?: vscode.ExtensionContext): Promise<void> {
+    const pythonExtension = vscode.extensions.getExtension<PythonExtensionApi | undefined>('ms-python.python');
+    if (!pythonExtension) {
+        return;
+    }
     
-    const existingDiagnostics = diagnosticCollection.get(document.uri) || [];
-    const nonIspDiagnostics = existingDiagnostics.filter(d => d.source !== 'solid-isp');
-    diagnosticCollection.set(document.uri, [...nonIspDiagnostics, ...diagnostics]);
-    
-    if (!silent) {
-        if (results.length > 0) {
-            const prompt = generateISPPrompt(results, document.uri.fsPath);
-            outputChannel.appendLine('\n=== ISP Analysis Result ===');
-            outputChannel.appendLine(prompt);
-            outputChannel.show();
-            
-            const action = await vscode.window.showWarningMessage(
-                `Found ${results.length} potential Interface Segregation Principle violation(s).`,
-                'View Details',
-                'Copy Prompt'
-            );
-            
-            if (action === 'Copy Prompt') {
-                await vscode.env.clipboard.writeText(prompt);
-                vscode.window.showInformationMessage('ISP analysis prompt copied to clipboard.');
-            } else if (action === 'View Details') {
-                outputChannel.show();
+    try {
+        const api = pythonExtension.isActive ? pythonExtension.exports : await pythonExtension.activate();
+        pythonInterpreters.clear();
+        for (const folder of vscode.workspace.workspaceFolders || []) {
+            const interpreter = await getPythonInterpreter(api, folder.uri);
+            if (interpreter) {
+                pythonInterpreters.set(folder.uri.fsPath, interpreter);
             }
-        } else {
-            vscode.window.showInformationMessage('All classes pass the Interface Segregation Principle check.');
         }
-    } else if (results.length > 0) {
-        outputChannel.appendLine(`ISP: Found ${results.length} violation(s) in ${path.basename(document.uri.fsPath)}`);
+        toolInstallations.clear();
+        
+        const onDidChange = api?.environments?.onDidChangeActiveEnvironmentPath;
+        if (context && onDidChange) {
+            context.subscriptions.push(onDidChange(async () => {
+                await refreshPythonInterpreters();
+                restartSemgrepServer();
+            }));
+        }
+    } catch (error) {
+        outputChannel.appendLine(`Could not read the Python extension interpreter: ${error}`);
     }
 }
 
-interface InterfaceInfo {
-    name: string;
-    startLine: number;
-    abstractMethodCount: number;
-    methods: string[];
+async function getPythonInterpreter(api: PythonExtensionApi | undefined, scope: vscode.Uri): Promise<string | undefined> {
+    if (api?.environments) {
+        const environmentPath = api.environments.getActiveEnvironmentPath(scope);
+        const environment = await api.environments.resolveEnvironment(environmentPath);
+        return environment?.executable.uri?.fsPath ?? environmentPath.path;
+    }
+    return api?.settings?.getExecutionDetails(scope).execCommand?.[0];
 }
 
-interface ImplementationInfo {
-    name: string;
-    startLine: number;
-    totalMethods: number;
-    emptyMethods: { name: string; line: number; code: string }[];
-    notImplementedMethods: { name: string; line: number; code: string }[];
+function parseSemgrepVersion(output: string): number[] | null {
+    const match = output.match(/(\d+)\.(\d+)\.(\d+)/);
+    return match ? match.slice(1, 4).map(Number) : null;
 }
 
-function parseInterfaces(text: string, languageId: string): InterfaceInfo[] {
-    const interfaces: InterfaceInfo[] = [];
-    const lines = text.split('\n');
+function compareVersions(a: number[], b: number[]): number {
+    for (let i = 0; i < 3; i++) {
+        if (a[i] !== b[i]) {
+            return a[i] - b[i];
+        }
+    }
+    return 0;
+}
+
+function isSupportedSemgrepVersion(version: number[]): boolean {
+    return compareVersions(version, SUPPORTED_SEMGREP_VERSIONS.min) >= 0 &&
+        compareVersions(version, SUPPORTED_SEMGREP_VERSIONS.max) < 0;
+}
+
+function getSupportedVersionRange(): string {
+    return `>=${SUPPORTED_SEMGREP_VERSIONS.min.join('.')} <${SUPPORTED_SEMGREP_VERSIONS.max.join('.')}`;
+}
+
+async function checkSemgrepInstallation(config: SemgrepConfig): Promise<void> {
+    const version = parseSemgrepVersion(await getToolVersion(config.semgrepPath));
+    if (!version) {
+        reportSetupIssue(`missing:${config.semgrepPath}`,
+            `Semgrep was not found (tried "${config.semgrepPath}"). Install it with pip or pipx, or set semgrepOffline.semgrepPath.`,
+            ['Check Setup', 'Open Settings']);
+        throw new Error(`semgrep not found: ${config.semgrepPath}`);
+    }
+    if (!isSupportedSemgrepVersion(version)) {
+        reportSetupIssue(`version:${config.semgrepPath}`,
+            `Semgrep ${version.join('.')} is outside the supported range (${getSupportedVersionRange()}). Results may be incomplete.`,
+            ['Check Setup']);
+    }
+    
+    const userRulesPath = config.rulesPaths[0];
+    if (!fs.existsSync(userRulesPath)) {
+        reportSetupIssue(`rules:${userRulesPath}`,
+            `Semgrep rules file not found: ${userRulesPath}`,
+            ['Create Starter Rules', 'Open Walkthrough']);
+        throw new Error(`rules file not found: ${userRulesPath}`);
+    }
+}
+
+function reportSetupIssue(key: string, message: string, actions: string[]): void {
+    if (reportedSetupIssues.has(key)) {
+        return;
+    }
+    reportedSetupIssues.add(key);
+    outputChannel.appendLine(message);
+    
+    vscode.window.showWarningMessage(message, ...actions).then((action) => {
+        if (action) {
+            runSetupAction(action);
+        }
+    });
+}
+
+function runSetupAction(action: string): void {
+    switch (action) {
+        case 'Check Setup':
+            vscode.commands.executeCommand('semgrep-offline.checkSetup');
+            break;
+        case 'Create Starter Rules':
+            vscode.commands.executeCommand('semgrep-offline.createStarterRules');
+            break;
+        case 'Open Walkthrough':
+            vscode.commands.executeCommand('workbench.action.openWalkthrough', WALKTHROUGH_ID, false);
+            break;
+        case 'Open Settings':
+            vscode.commands.executeCommand('workbench.action.openSettings', 'semgrepOffline.semgrepPath');
+            break;
+    }
+}
+
+async function checkSetup(): Promise<void> {
+    toolVersions.clear();
+    toolInstallations.clear();
+    reportedSetupIssues.clear();
+    await refreshPythonInterpreters();
+    
+    outputChannel.show(true);
+    outputChannel.appendLine('--- Semgrep setup check ---');
+    
+    const problems: string[] = [];
+    let rulesMissing = false;
     
-    if (languageId === 'python') {
-        let currentInterface: InterfaceInfo | null = null;
-        let classIndent = 0;
-        let isAbcClass = false;
+    const folders = vscode.workspace.workspaceFolders;
+    const scopes = folders && folders.length > 0 ? folders.map(f => f.uri) : [undefined];
+    for (const scope of scopes) {
+        const config = getConfig(scope);
+        const installation = resolveToolInstallation('semgrep', getSettings(scope).get<string>('semgrepPath') || 'semgrep', config.workspaceFolder);
+        outputChannel.appendLine(`Workspace folder: ${config.workspaceFolder || '(none)'}`);
         
-        for (let i = 0; i < lines.length; i++) {
-            const line = lines[i];
-            const trimmed = line.trimStart();
-            const indent = line.length - trimmed.length;
-            
-            const classMatch = trimmed.match(/^class\s+(\w+)\s*\(([^)]*)\)/);
-            if (classMatch) {
-                if (currentInterface && currentInterface.abstractMethodCount > 0) {
-                    interfaces.push(currentInterface);
-                }
-                
-                const parentClasses = classMatch[2];
-                isAbcClass = /ABC|Protocol/.test(parentClasses);
-                
-                if (isAbcClass) {
-                    currentInterface = {
-                        name: classMatch[1],
-                        startLine: i,
-                        abstractMethodCount: 0,
-                        methods: []
-                    };
-                    classIndent = indent;
-                } else {
-                    currentInterface = null;
-                }
-                continue;
+        const interpreter = pythonInterpreters.get(config.workspaceFolder);
+        outputChannel.appendLine(`  Python interpreter: ${interpreter || '(Python extension not available)'}`);
+        outputChannel.appendLine(`  semgrep: ${installation.path} (${installation.source})`);
+        
+        const versionOutput = await getToolVersion(config.semgrepPath);
+        const version = parseSemgrepVersion(versionOutput);
+        if (!version) {
+            outputChannel.appendLine('  version: ✗ semgrep could not be run');
+            problems.push(`semgrep not found for ${path.basename(config.workspaceFolder) || 'the workspace'}`);
+        } else if (!isSupportedSemgrepVersion(version)) {
+            outputChannel.appendLine(`  version: ⚠ ${version.join('.')} (supported: ${getSupportedVersionRange()})`);
+            problems.push(`semgrep ${version.join('.')} is not in the supported range ${getSupportedVersionRange()}`);
+        } else {
+            outputChannel.appendLine(`  version: ✓ ${version.join('.')}`);
+        }
+        
+        let allRulesExist = true;
+        for (const rulesPath of config.rulesPaths) {
+            const exists = fs.existsSync(rulesPath);
+            allRulesExist = allRulesExist && exists;
+            outputChannel.appendLine(`  rules: ${exists ? '✓' : '✗ missing'} ${rulesPath}`);
+        }
+        if (!allRulesExist) {
+            rulesMissing = true;
+            problems.push(`rules file missing: ${config.rulesPaths[0]}`);
+        } else if (version) {
+            const validationError = await validateRules(config);
+            outputChannel.appendLine(`  rules validation: ${validationError ? `✗ ${validationError}` : '✓'}`);
+            if (validationError) {
+                problems.push('rules are invalid');
             }
-            
-            if (currentInterface && indent <= classIndent && trimmed.length > 0 && !classMatch) {
-                if (currentInterface.abstractMethodCount > 0) {
-                    interfaces.push(currentInterface);
-                }
-                currentInterface = null;
+        }
+    }
+    
+    if (problems.length === 0) {
+        outputChannel.appendLine('Setup OK');
+        vscode.window.showInformationMessage('Semgrep setup looks good.');
+        return;
+    }
+    
+    const actions = rulesMissing ? ['Create Starter Rules', 'Open Walkthrough'] : ['Open Settings', 'Open Walkthrough'];
+    const action = await vscode.window.showWarningMessage(`Semgrep setup: ${problems.join('; ')}`, ...actions);
+    if (action) {
+        runSetupAction(action);
+    }
+}
+
+async function createStarterRules(): Promise<void> {
+    const folders = vscode.workspace.workspaceFolders;
+    if (!folders || folders.length === 0) {
+        vscode.window.showWarningMessage('No workspace folder open');
+        return;
+    }
+    
+    const activeUri = vscode.window.activeTextEditor?.document.uri;
+    let folder = activeUri ? vscode.workspace.getWorkspaceFolder(activeUri) : undefined;
+    if (!folder) {
+        folder = folders.length > 1
+            ? await vscode.window.showWorkspaceFolderPick({ placeHolder: 'Select the workspace folder for the rules file' })
+            : folders[0];
+    }
+    if (!folder) {
+        return;
+    }
+    
+    const rulesPath = getConfig(folder.uri).rulesPaths[0];
+    if (fs.existsSync(rulesPath)) {
+        vscode.window.showInformationMessage(`Semgrep rules file already exists: ${rulesPath}`);
+    } else {
+        const template = path.join(extensionPath, 'rules', 'starter', 'semgrep_rules.yaml');
+        await fs.promises.mkdir(path.dirname(rulesPath), { recursive: true });
+        await fs.promises.copyFile(template, rulesPath);
+        reportedSetupIssues.delete(`rules:${rulesPath}`);
+        outputChannel.appendLine(`Created starter rules file: ${rulesPath}`);
+    }
+    
+    await vscode.window.showTextDocument(vscode.Uri.file(rulesPath));
+}
+
+async function scanFile(document: vscode.TextDocument, force: boolean): Promise<void> {
+    const key = document.uri.toString();
+    const queued = scanQueue.get(key);
+    scanQueue.set(key, { document, force: force || (queued?.force ?? false) });
+    
+    const superseded = inFlightScan?.entries.find(e => e.document.uri.toString() === key);
+    if (inFlightScan && superseded && (force || superseded.version !== document.version)) {
+        outputChannel.appendLine(`Cancelling in-flight scan of ${path.basename(document.uri.fsPath)} (superseded by newer scan)`);
+        for (const entry of inFlightScan.entries) {
+            const entryKey = entry.document.uri.toString();
+            if (!scanQueue.has(entryKey)) {
+                scanQueue.set(entryKey, { document: entry.document, force: false });
+            }
+        }
+        inFlightScan.tokenSource.cancel();
+    }
+    
+    await processQueue();
+}
+
+function cancelAllScans(): void {
+    const pendingCount = scanQueue.size;
+    scanQueue.clear();
+    for (const tokenSource of activeScanSources) {
+        tokenSource.cancel();
+    }
+    outputChannel.appendLine(`Cancelled ${activeScanSources.size} running scan(s) and ${pendingCount} queued scan(s)`);
+}
+
+async function processQueue(): Promise<void> {
+    if (isScanning || scanQueue.size === 0) {
+        return;
+    }
+    
+    isScanning = true;
+    
+    try {
+        const first = scanQueue.values().next().value!;
+        const config = getConfig(first.document.uri);
+        const folderKey = getConfigKey(config);
+        const engines = getEnabledEngines(first.document.uri);
+        const contextKeys = new Map<string, string | null>();
+        for (const engine of engines) {
+            contextKeys.set(engine.id, config.useCache ? await engine.getContextKey(config) : null);
+        }
+        const pending = [...scanQueue.values()]
+            .filter(p => getConfigKey(getConfig(p.document.uri)) === folderKey)
+            .slice(0, MAX_BATCH_SIZE);
+        const engineDocuments = new Map<AnalysisEngine, vscode.TextDocument[]>(engines.map(e => [e, []]));
+        
+        for (const { document, force } of pending) {
+            scanQueue.delete(document.uri.toString());
+            if (document.isClosed) {
                 continue;
             }
-            
-            if (currentInterface) {
-                if (trimmed.includes('@abstractmethod')) {
-                    const nextLine = lines[i + 1] || '';
-                    const methodMatch = nextLine.trimStart().match(/^def\s+(\w+)/);
-                    if (methodMatch) {
-                        currentInterface.abstractMethodCount++;
-                        currentInterface.methods.push(methodMatch[1]);
-                    }
+            for (const engine of engines) {
+                if (engine.languages && !engine.languages.includes(document.languageId)) {
+                    continue;
+                }
+                const contextKey = contextKeys.get(engine.id);
+                if (contextKey && !force && restoreCachedScan(document, engine, contextKey)) {
+                    outputChannel.appendLine(`Skipping ${engine.id} scan of ${path.basename(document.uri.fsPath)} (unchanged)`);
+                    continue;
                 }
+                engineDocuments.get(engine)!.push(document);
             }
         }
         
-        if (currentInterface && currentInterface.abstractMethodCount > 0) {
-            interfaces.push(currentInterface);
+        for (const [engine, documents] of engineDocuments) {
+            if (documents.length > 0) {
+                statusBarItem.text = '$(sync~spin) Scanning...';
+                await scanDocuments(engine, documents, config, contextKeys.get(engine.id) ?? null);
+            }
+        }
+    } finally {
+        isScanning = false;
+    }
+    
+    await processQueue();
+}
+
+async function scanDocuments(
+    engine: AnalysisEngine,
+    documents: vscode.TextDocument[],
+    config: SemgrepConfig,
+    contextKey: string | null
+): Promise<void> {
+    const entries: BatchEntry[] = [];
+    const label = documents.length === 1 ? documents[0].uri.fsPath : `${documents.length} files`;
+    const tokenSource = new vscode.CancellationTokenSource();
+    activeScanSources.add(tokenSource);
+    inFlightScan = { entries, tokenSource };
+    outputChannel.appendLine(`Scanning with ${engine.id}: ${label}`);
+    
+    try {
+        for (const document of documents) {
+            entries.push({
+                document,
+                version: document.version,
+                text: document.getText(),
+                target: await prepareScanTarget(document)
+            });
         }
-    } else if (languageId === 'typescript' || languageId === 'typescriptreact') {
-        let braceCount = 0;
-        let currentInterface: InterfaceInfo | null = null;
         
-        for (let i = 0; i < lines.length; i++) {
-            const line = lines[i];
-            const trimmed = line.trim();
-            
-            const interfaceMatch = trimmed.match(/^(?:export\s+)?interface\s+(\w+)/);
-            if (interfaceMatch && braceCount === 0) {
-                currentInterface = {
-                    name: interfaceMatch[1],
-                    startLine: i,
-                    abstractMethodCount: 0,
-                    methods: []
-                };
+        const targets = entries.map(e => ({ path: e.target.targetPath, text: e.text, languageId: e.document.languageId }));
+        const results = await engine.run(config, targets, tokenSource.token);
+        let totalIssues = 0;
+        
+        for (const entry of entries) {
+            const { document } = entry;
+            if (document.isClosed && document.uri.scheme === 'untitled') {
+                continue;
             }
             
-            const abstractClassMatch = trimmed.match(/^(?:export\s+)?abstract\s+class\s+(\w+)/);
-            if (abstractClassMatch && braceCount === 0) {
-                currentInterface = {
-                    name: abstractClassMatch[1],
-                    startLine: i,
-                    abstractMethodCount: 0,
-                    methods: []
-                };
-            }
+            const findings = filterFindingsForPath(results, entry.target.targetPath, config.workspaceFolder);
+            const targetErrors = filterErrorsForPath(results, entry.target.targetPath, config.workspaceFolder);
+            const engineDiagnostics = findings.map(f => createDiagnostic(f, engine.id));
+            const existingDiagnostics = getDiagnostics(document.uri);
+            const otherDiagnostics = existingDiagnostics.filter(d => d.source !== engine.id);
+            setDiagnostics(document.uri, [...engineDiagnostics, ...targetErrors.map(createErrorDiagnostic), ...otherDiagnostics]);
+            totalIssues += getDiagnostics(document.uri).filter(d => isEngineDiagnostic(d) && !semgrepErrorDiagnostics.has(d)).length;
             
-            const openBraces = (line.match(/{/g) || []).length;
-            const closeBraces = (line.match(/}/g) || []).length;
-            braceCount += openBraces - closeBraces;
+            if (document.version !== entry.version) {
+                scanQueue.set(document.uri.toString(), { document, force: false });
+            } else if (contextKey && targetErrors.length === 0) {
+                updateScanCache(document.uri, engine.id, { key: getCacheKey(entry.text, contextKey), findings });
+            }
             
-            if (currentInterface) {
-                const methodMatch = trimmed.match(/^(?:abstract\s+)?(\w+)\s*\([^)]*\)\s*[:{]/);
-                if (methodMatch && !trimmed.startsWith('constructor')) {
-                    currentInterface.abstractMethodCount++;
-                    currentInterface.methods.push(methodMatch[1]);
-                }
+            outputChannel.appendLine(`${engine.id} found ${engineDiagnostics.length} issue(s) in ${path.basename(document.uri.fsPath)}`);
+        }
+        
+        if (!engine.reportErrors?.(results, config)) {
+            setStatusText(totalIssues > 0 
+                ? `$(shield) Semgrep (${totalIssues})` 
+                : '$(shield) Semgrep ✓');
+        }
+    } catch (error) {
+        if (error instanceof vscode.CancellationError) {
+            setStatusText('$(shield) Semgrep');
+            outputChannel.appendLine(`Scan cancelled: ${label}`);
+        } else {
+            setStatusError(describeScanError(error), `${error}`);
+            outputChannel.appendLine(`Error scanning ${label}: ${error}`);
+        }
+    } finally {
+        inFlightScan = null;
+        activeScanSources.delete(tokenSource);
+        tokenSource.dispose();
+        for (const entry of entries) {
+            await entry.target.cleanup();
+        }
+    }
+}
+
+async function scanWorkspace(): Promise<void> {
+    const folders = vscode.workspace.workspaceFolders;
+    if (!folders || folders.length === 0) {
+        vscode.window.showWarningMessage('No workspace folder open');
+        return;
+    }
+    
+    const targetFolders = await pickWorkspaceFolders(folders, 'Select the workspace folder to scan');
+    if (!targetFolders) {
+        return;
+    }
+    
+    statusBarItem.text = '$(sync~spin) Scanning workspace...';
+    
+    const tokenSource = new vscode.CancellationTokenSource();
+    activeScanSources.add(tokenSource);
+    let progressListener: vscode.Disposable | undefined;
+    
+    try {
+        const { issues, files, errors } = await vscode.window.withProgress(
+            {
+                location: vscode.ProgressLocation.Notification,
+                title: 'Semgrep: Scanning workspace',
+                cancellable: true
+            },
+            async (progress, progressToken) => {
+                progressListener = progressToken.onCancellationRequested(() => tokenSource.cancel());
                 
-                const propMethodMatch = trimmed.match(/^(\w+)\s*\([^)]*\)\s*:/);
-                if (propMethodMatch) {
-                    currentInterface.abstractMethodCount++;
-                    currentInterface.methods.push(propMethodMatch[1]);
+                progress.report({ message: 'Collecting files...' });
+                const folderTargets: { folder: vscode.WorkspaceFolder; targets: vscode.Uri[] }[] = [];
+                for (const folder of targetFolders) {
+                    folderTargets.push({ folder, targets: await findWorkspaceTargets(folder, tokenSource.token) });
                 }
                 
-                if (braceCount === 0 && closeBraces > 0) {
-                    if (currentInterface.abstractMethodCount > 0) {
-                        interfaces.push(currentInterface);
-                    }
-                    currentInterface = null;
+                const totalTargets = folderTargets.reduce((sum, f) => sum + f.targets.length, 0);
+                let scannedTargets = 0;
+                const reportScanned = (count: number) => {
+                    scannedTargets += count;
+                    statusBarItem.text = `$(sync~spin) Scanning workspace... ${scannedTargets}/${totalTargets}`;
+                    progress.report({
+                        message: `${scannedTargets}/${totalTargets} files`,
+                        increment: totalTargets > 0 ? (count / totalTargets) * 100 : 0
+                    });
+                };
+                
+                let totalIssues = 0;
+                let totalFiles = 0;
+                let hasErrors = false;
+                
+                for (const { folder, targets } of folderTargets) {
+                    const result = await scanWorkspaceFolder(folder, targets, tokenSource.token, reportScanned);
+                    clearFolderEngineResults(folder, result.scanned);
+                    totalIssues += result.issues;
+                    totalFiles += result.files;
+                    hasErrors = hasErrors || result.errors;
                 }
+                
+                return { issues: totalIssues, files: totalFiles, errors: hasErrors };
+            }
+        );
+        
+        if (!errors) {
+            setStatusText(issues > 0 
+                ? `$(shield) Semgrep (${issues})` 
+                : '$(shield) Semgrep ✓');
+        }
+        
+        outputChannel.appendLine(`Workspace scan complete: ${issues} issue(s) in ${files} file(s)`);
+        vscode.window.showInformationMessage(`Semgrep: Found ${issues} issue(s) in ${files} file(s)`);
+    } catch (error) {
+        if (error instanceof vscode.CancellationError) {
+            setStatusText('$(shield) Semgrep');
+            outputChannel.appendLine('Workspace scan cancelled');
+            return;
+        }
+        setStatusError(describeScanError(error), `${error}`);
+        outputChannel.appendLine(`Error scanning workspace: ${error}`);
+        vscode.window.showErrorMessage(`Semgrep workspace scan failed: ${error}`);
+    } finally {
+        progressListener?.dispose();
+        activeScanSources.delete(tokenSource);
+        tokenSource.dispose();
+    }
+}
+
+async function pickWorkspaceFolders(
+    folders: readonly vscode.WorkspaceFolder[],
+    placeHolder: string
+): Promise<readonly vscode.WorkspaceFolder[] | undefined> {
+    if (folders.length <= 1) {
+        return folders;
+    }
+    const picked = await vscode.window.showQuickPick(
+        [
+            { label: 'All Workspace Folders', folders },
+            ...folders.map(f => ({ label: f.name, description: f.uri.fsPath, folders: [f] }))
+        ],
+        { placeHolder }
+    );
+    return picked?.folders;
+}
+
+async function findWorkspaceTargets(folder: vscode.WorkspaceFolder, token: vscode.CancellationToken): Promise<vscode.Uri[]> {
+    const config = getConfig(folder.uri);
+    const languages = getSettings(folder.uri).get<string[]>('languages') || ['python'];
+    const extensions = [...new Set(languages.map(l => LANGUAGE_EXTENSIONS[l]).filter(Boolean))];
+    if (extensions.length === 0) {
+        return [];
+    }
+    
+    const excludes = [...config.exclude, ...(config.respectIgnoreFiles ? getIgnoreFileGlobs(folder) : [])];
+    // Brace groups can't be nested in a joined `{a,b}` glob, so those patterns are matched on their own
+    const simpleExcludes = excludes.filter(e => !/[{}]/.test(e));
+    const braceExcludes = excludes.filter(e => /[{}]/.test(e));
+    const exclude = simpleExcludes.length > 0 ? new vscode.RelativePattern(folder, `{${simpleExcludes.join(',')}}`) : null;
+    const includes = config.include.length > 0 ? config.include : ['**/*'];
+    
+    const excluded = new Set<string>();
+    for (const pattern of braceExcludes) {
+        for (const uri of await vscode.workspace.findFiles(new vscode.RelativePattern(folder, pattern), exclude, undefined, token)) {
+            excluded.add(uri.toString());
+        }
+    }
+    
+    const targets = new Map<string, vscode.Uri>();
+    for (const include of includes) {
+        const uris = await vscode.workspace.findFiles(new vscode.RelativePattern(folder, include), exclude, undefined, token);
+        for (const uri of uris) {
+            if (extensions.some(e => uri.fsPath.endsWith(e)) && !excluded.has(uri.toString())) {
+                targets.set(uri.toString(), uri);
             }
         }
     }
+    if (token.isCancellationRequested) {
+        throw new vscode.CancellationError();
+    }
     
-    return interfaces;
+    return [...targets.values()].sort((a, b) => a.fsPath.localeCompare(b.fsPath));
 }
 
-function parseImplementations(text: string, languageId: string): ImplementationInfo[] {
-    const implementations: ImplementationInfo[] = [];
-    const lines = text.split('\n');
+async function scanWorkspaceFolder(
+    folder: vscode.WorkspaceFolder,
+    targets: vscode.Uri[],
+    token: vscode.CancellationToken,
+    reportScanned: (count: number) => void
+): Promise<{ issues: number; files: number; errors: boolean; scanned: Set<string> }> {
+    const workspaceFolder = folder.uri.fsPath;
+    const config = getConfig(folder.uri);
+    
+    outputChannel.appendLine(`Scanning workspace: ${workspaceFolder} (${targets.length} file(s))`);
+    
+    const engines = getEnabledEngines(folder.uri);
+    const scannedUris = new Set<string>();
+    const filesWithIssues = new Set<string>();
+    let issues = 0;
+    let errors = false;
     
-    if (languageId === 'python') {
-        let currentClass: ImplementationInfo | null = null;
-        let classIndent = 0;
-        let methodIndent = 0;
-        let currentMethodName = '';
-        let currentMethodLine = 0;
-        let methodBody: string[] = [];
-        let inMethod = false;
+    // Unsaved editors keep their buffer results instead of the on-disk ones
+    const targetKeys = new Set(targets.map(uri => uri.toString()));
+    const dirtyDocuments = vscode.workspace.textDocuments.filter(d => d.isDirty && targetKeys.has(d.uri.toString()));
+    const dirtyKeys = new Set(dirtyDocuments.map(d => d.uri.toString()));
+    const diskTargets = targets.filter(uri => !dirtyKeys.has(uri.toString()));
+    
+    for (let i = 0; i < diskTargets.length; i += WORKSPACE_BATCH_SIZE) {
+        const batch = diskTargets.slice(i, i + WORKSPACE_BATCH_SIZE);
         
-        for (let i = 0; i < lines.length; i++) {
-            const line = lines[i];
-            const trimmed = line.trimStart();
-            const indent = line.length - trimmed.length;
-            
-            const classMatch = trimmed.match(/^class\s+(\w+)/);
-            if (classMatch) {
-                if (currentClass && inMethod) {
-                    checkPythonMethodBody(currentClass, currentMethodName, currentMethodLine, methodBody);
-                }
-                if (currentClass) {
-                    implementations.push(currentClass);
-                }
-                
-                currentClass = {
-                    name: classMatch[1],
-                    startLine: i,
-                    totalMethods: 0,
-                    emptyMethods: [],
-                    notImplementedMethods: []
-                };
-                classIndent = indent;
-                inMethod = false;
-                continue;
-            }
-            
-            if (currentClass && indent <= classIndent && trimmed.length > 0 && !classMatch) {
-                if (inMethod) {
-                    checkPythonMethodBody(currentClass, currentMethodName, currentMethodLine, methodBody);
-                }
-                implementations.push(currentClass);
-                currentClass = null;
-                inMethod = false;
+        for (const engine of engines) {
+            const engineBatch = engine.languages
+                ? batch.filter(uri => engine.languages!.some(l => LANGUAGE_EXTENSIONS[l] && uri.fsPath.endsWith(LANGUAGE_EXTENSIONS[l])))
+                : batch;
+            if (engineBatch.length === 0) {
                 continue;
             }
+            const results = await engine.run(config, engineBatch.map(uri => ({ path: uri.fsPath })), token);
             
-            if (currentClass) {
-                const methodMatch = trimmed.match(/^def\s+(\w+)\s*\(/);
-                if (methodMatch) {
-                    if (inMethod) {
-                        checkPythonMethodBody(currentClass, currentMethodName, currentMethodLine, methodBody);
-                    }
-                    
-                    currentMethodName = methodMatch[1];
-                    currentMethodLine = i;
-                    methodIndent = indent;
-                    methodBody = [];
-                    inMethod = true;
-                    currentClass.totalMethods++;
-                    continue;
-                }
-                
-                if (inMethod && indent > methodIndent) {
-                    methodBody.push(trimmed);
-                } else if (inMethod && indent <= methodIndent && trimmed.length > 0) {
-                    checkPythonMethodBody(currentClass, currentMethodName, currentMethodLine, methodBody);
-                    inMethod = false;
-                }
+            const fileGroups = new Map<string, vscode.Diagnostic[]>();
+            for (const uri of engineBatch) {
+                fileGroups.set(path.normalize(uri.fsPath), []);
             }
-        }
-        
-        if (currentClass) {
-            if (inMethod) {
-                checkPythonMethodBody(currentClass, currentMethodName, currentMethodLine, methodBody);
-            }
-            implementations.push(currentClass);
-        }
-    } else if (languageId === 'typescript' || languageId === 'javascript' || languageId === 'typescriptreact' || languageId === 'javascriptreact') {
-        let currentClass: ImplementationInfo | null = null;
-        let braceCount = 0;
-        let classStartBrace = 0;
-        let methodStartBrace = 0;
-        let currentMethodName = '';
-        let currentMethodLine = 0;
-        let methodBody: string[] = [];
-        let inMethod = false;
-        
-        for (let i = 0; i < lines.length; i++) {
-            const line = lines[i];
-            const trimmed = line.trim();
             
-            const classMatch = trimmed.match(/^(?:export\s+)?class\s+(\w+)/);
-            if (classMatch && braceCount === 0) {
-                if (currentClass) {
-                    implementations.push(currentClass);
+            for (const finding of results.results) {
+                const absPath = path.normalize(path.resolve(workspaceFolder, finding.path));
+                if (!fileGroups.has(absPath)) {
+                    fileGroups.set(absPath, []);
                 }
-                currentClass = {
-                    name: classMatch[1],
-                    startLine: i,
-                    totalMethods: 0,
-                    emptyMethods: [],
-                    notImplementedMethods: []
-                };
-                classStartBrace = 0;
-                inMethod = false;
+                fileGroups.get(absPath)!.push(createDiagnostic(finding, engine.id));
             }
             
-            const openBraces = (line.match(/{/g) || []).length;
-            const closeBraces = (line.match(/}/g) || []).length;
-            
-            if (currentClass) {
-                if (braceCount === classStartBrace + 1 || (braceCount === 0 && openBraces > 0)) {
-                    const methodMatch = trimmed.match(/^(?:public\s+|private\s+|protected\s+)?(?:async\s+)?(\w+)\s*\(/);
-                    if (methodMatch && !trimmed.startsWith('constructor')) {
-                        if (inMethod) {
-                            checkTSMethodBody(currentClass, currentMethodName, currentMethodLine, methodBody);
-                        }
-                        currentMethodName = methodMatch[1];
-                        currentMethodLine = i;
-                        methodStartBrace = braceCount;
-                        methodBody = [];
-                        inMethod = true;
-                        currentClass.totalMethods++;
+            for (const error of results.errors || []) {
+                if (error.path && !isRuleError(error, config)) {
+                    const absPath = path.normalize(path.resolve(workspaceFolder, error.path));
+                    if (!fileGroups.has(absPath)) {
+                        fileGroups.set(absPath, []);
                     }
-                }
-                
-                if (inMethod) {
-                    methodBody.push(trimmed);
+                    fileGroups.get(absPath)!.push(createErrorDiagnostic(error));
                 }
             }
             
-            braceCount += openBraces - closeBraces;
-            
-            if (currentClass && inMethod && braceCount <= methodStartBrace && closeBraces > 0) {
-                checkTSMethodBody(currentClass, currentMethodName, currentMethodLine, methodBody);
-                inMethod = false;
+            for (const [filePath, diagnostics] of fileGroups) {
+                const uri = vscode.Uri.file(filePath);
+                const existingDiagnostics = getDiagnostics(uri);
+                const otherDiagnostics = existingDiagnostics.filter(d => d.source !== engine.id);
+                setDiagnostics(uri, [...diagnostics, ...otherDiagnostics]);
+                scannedUris.add(uri.toString());
+                if (diagnostics.length > 0) {
+                    filesWithIssues.add(uri.toString());
+                }
             }
             
-            if (currentClass && braceCount === 0 && closeBraces > 0) {
-                implementations.push(currentClass);
-                currentClass = null;
-            }
+            issues += results.results.length;
+            errors = engine.reportErrors?.(results, config) || errors;
         }
+        reportScanned(batch.length);
+    }
+    
+    for (const document of dirtyDocuments) {
+        scanFile(document, true);
+        scannedUris.add(document.uri.toString());
     }
+    reportScanned(dirtyDocuments.length);
     
-    return implementations;
+    return { issues, files: filesWithIssues.size, errors, scanned: scannedUris };
 }
 
-function checkPythonMethodBody(impl: ImplementationInfo, methodName: string, methodLine: number, body: string[]): void {
-    if (methodName.startsWith('__') && methodName.endsWith('__') && methodName !== '__init__') {
-        return;
+function clearFolderEngineResults(folder: vscode.WorkspaceFolder, keep: Set<string>): void {
+    for (const [key, diagnostics] of allDiagnostics) {
+        const uri = vscode.Uri.parse(key);
+        if (!keep.has(key) && vscode.workspace.getWorkspaceFolder(uri)?.uri.toString() === folder.uri.toString()) {
+            setDiagnostics(uri, diagnostics.filter(d => !isEngineDiagnostic(d)));
+        }
     }
     
-    const bodyText = body.join('\n').trim();
-    
-    if (bodyText === 'pass' || bodyText === '...' || bodyText === 'pass  ' || body.length === 1 && body[0].trim() === 'pass') {
-        impl.emptyMethods.push({
-            name: methodName,
-            line: methodLine,
-            code: `def ${methodName}(...): pass`
-        });
-        return;
+    for (const key of [...scanCache.keys()]) {
+        if (!keep.has(key) && vscode.workspace.getWorkspaceFolder(vscode.Uri.parse(key))?.uri.toString() === folder.uri.toString()) {
+            scanCache.delete(key);
+        }
     }
-    
-    if (bodyText.includes('raise NotImplementedError') || bodyText.includes('raise NotImplemented')) {
-        impl.notImplementedMethods.push({
-            name: methodName,
-            line: methodLine,
-            code: `def ${methodName}(...): raise NotImplementedError`
+    persistScanCache();
+}
+
+function runTool(
+    tool: string,
+    command: string,
+    args: string[],
+    cwd: string,
+    token?: vscode.CancellationToken
+): Promise<{ stdout: string; stderr: string; code: number | null }> {
+    return new Promise((resolve, reject) => {
+        if (token?.isCancellationRequested) {
+            reject(new vscode.CancellationError());
+            return;
+        }
+        
+        outputChannel.appendLine(`Running: ${command} ${args.join(' ')}`);
+        
+        const proc = spawn(command, args, {
+            cwd: cwd || undefined
         });
-    }
+        scanProcesses.add(proc);
+        
+        let stdout = '';
+        let stderr = '';
+        let settled = false;
+        
+        const timeoutSeconds = getSettings().get<number>('scanTimeout') ?? 120;
+        const timer = timeoutSeconds > 0
+            ? setTimeout(() => {
+                proc.kill();
+                settle(() => reject(new Error(`${tool[0].toUpperCase()}${tool.slice(1)} timed out after ${timeoutSeconds}s`)));
+            }, timeoutSeconds * 1000)
+            : undefined;
+        
+        const cancelListener = token?.onCancellationRequested(() => {
+            proc.kill();
+            settle(() => reject(new vscode.CancellationError()));
+        });
+        
+        function settle(fn: () => void): void {
+            if (settled) {
+                return;
+            }
+            settled = true;
+            if (timer) {
+                clearTimeout(timer);
+            }
+            cancelListener?.dispose();
+            scanProcesses.delete(proc);
+            fn();
+        }
+        
+        proc.stdout.on('data', (data) => {
+            stdout += data.toString();
+        });
+        
+        proc.stderr.on('data', (data) => {
+            stderr += data.toString();
+        });
+        
+        proc.on('close', (code) => {
+            settle(() => resolve({ stdout, stderr, code }));
+        });
+        
+        proc.on('error', (error) => {
+            settle(() => reject(new Error(`Failed to run ${tool}: ${error.message}`)));
+        });
+    });
 }
 
-function checkTSMethodBody(impl: ImplementationInfo, methodName: string, methodLine: number, body: string[]): void {
-    const bodyText = body.join(' ').replace(/[{}]/g, '').trim();
+async function runSemgrep(config: SemgrepConfig, targetPaths: string[], token?: vscode.CancellationToken): Promise<SemgrepResult> {
+    const args: string[] = [];
     
-    if (bodyText === '' || bodyText === methodName + '()' || /^\w+\s*\([^)]*\)\s*$/.test(bodyText)) {
-        impl.emptyMethods.push({
-            name: methodName,
-            line: methodLine,
-            code: `${methodName}() { }`
-        });
-        return;
+    for (const rulesPath of config.rulesPaths) {
+        args.push('--config', rulesPath);
+    }
+    for (const pattern of config.include) {
+        args.push('--include', pattern);
+    }
+    for (const pattern of config.exclude) {
+        args.push('--exclude', pattern);
+    }
+    if (!config.respectIgnoreFiles) {
+        args.push('--no-git-ignore');
+    }
+    if (config.maxFileSize > 0) {
+        args.push('--max-target-bytes', String(config.maxFileSize));
+    }
+    if (config.maxMemory > 0) {
+        args.push('--max-memory', String(config.maxMemory));
     }
     
-    if (bodyText.includes('throw new Error') && (bodyText.includes('not implemented') || bodyText.includes('Not implemented') || bodyText.includes('NotImplemented'))) {
-        impl.notImplementedMethods.push({
-            name: methodName,
-            line: methodLine,
-            code: `${methodName}() { throw new Error(...) }`
-        });
+    args.push(
+        '--json',
+        '--metrics=off',
+        '--disable-version-check',
+        '--oss-only',
+        '-j', String(config.jobs),
+        '--timeout', String(config.ruleTimeout),
+        ...targetPaths
+    );
+    
+    const { stdout, stderr, code } = await runTool('semgrep', config.semgrepPath, args, config.workspaceFolder, token);
+    if (stderr && !stderr.includes('UserWarning')) {
+        outputChannel.appendLine(`Semgrep stderr: ${stderr}`);
+    }
+    
+    try {
+        return JSON.parse(stdout) as SemgrepResult;
+    } catch (e) {
+        if (code === 0 && !stdout.trim()) {
+            return { results: [], errors: [] };
+        }
+        throw new Error(`Failed to parse semgrep output: ${e}\nStdout: ${stdout}\nStderr: ${stderr}`);
     }
 }
 
-function generateISPSuggestion(emptyCount: number, notImplCount: number, sir: number): string {
-    const suggestions: string[] = [];
+async function runBandit(config: SemgrepConfig, targets: EngineTarget[], token: vscode.CancellationToken): Promise<SemgrepResult> {
+    const args = ['--format', 'json', '--quiet', ...targets.map(t => t.path)];
+    const { stdout, stderr } = await runTool('bandit', config.banditPath, args, config.workspaceFolder, token);
     
-    if (emptyCount > 0) {
-        suggestions.push(`${emptyCount} empty method(s) indicate unused interface requirements`);
+    let output: BanditOutput;
+    try {
+        output = JSON.parse(stdout) as BanditOutput;
+    } catch (e) {
+        throw new Error(`Failed to parse bandit output: ${e}\nStdout: ${stdout}\nStderr: ${stderr}`);
     }
     
-    if (notImplCount > 0) {
-        suggestions.push(`${notImplCount} NotImplementedError method(s) indicate forced interface compliance`);
+    for (const error of output.errors || []) {
+        outputChannel.appendLine(`Bandit error in ${error.filename}: ${error.reason}`);
     }
     
-    if (sir > 0.5) {
-        suggestions.push('High stub ratio suggests the interface is too broad for this class');
+    const severities: Record<string, string> = { HIGH: 'ERROR', MEDIUM: 'WARNING', LOW: 'INFO' };
+    const results = (output.results || []).map((issue): SemgrepFinding => {
+        const endLine = issue.line_range?.[issue.line_range.length - 1] ?? issue.line_number;
+        const endText = getFileLines(vscode.Uri.file(path.resolve(config.workspaceFolder, issue.filename)))?.[endLine - 1];
+        return {
+            check_id: issue.test_id,
+            path: issue.filename,
+            start: { line: issue.line_number, col: (issue.col_offset ?? 0) + 1 },
+            end: { line: endLine, col: (issue.end_col_offset ?? endText?.length ?? 0) + 1 },
+            extra: {
+                message: issue.issue_text,
+                severity: severities[issue.issue_severity] || 'WARNING',
+                metadata: {
+                    category: 'security',
+                    cwe: issue.issue_cwe?.id ? `CWE-${issue.issue_cwe.id}` : undefined,
+                    confidence: issue.issue_confidence,
+                    references: issue.more_info ? [issue.more_info] : undefined,
+                    test_name: issue.test_name
+                },
+                lines: issue.code
+            }
+        };
+    });
+    return { results, errors: [] };
+}
+
+async function runRuff(config: SemgrepConfig, targets: EngineTarget[], token: vscode.CancellationToken): Promise<SemgrepResult> {
+    const args = ['check', '--output-format', 'json', '--exit-zero', '--no-fix', '--quiet'];
+    if (config.ruffSelect.length > 0) {
+        args.push('--select', config.ruffSelect.join(','));
     }
+    args.push(...targets.map(t => t.path));
+    const { stdout, stderr } = await runTool('ruff', config.ruffPath, args, config.workspaceFolder, token);
     
-    suggestions.push('Consider using smaller, more focused interfaces');
+    let output: RuffDiagnostic[];
+    try {
+        output = stdout.trim() ? JSON.parse(stdout) as RuffDiagnostic[] : [];
+    } catch (e) {
+        throw new Error(`Failed to parse ruff output: ${e}\nStdout: ${stdout}\nStderr: ${stderr}`);
+    }
     
-    return suggestions.join('. ') + '.';
+    const results = output.map((diagnostic): SemgrepFinding => ({
+        check_id: diagnostic.code || 'syntax-error',
+        path: diagnostic.filename,
+        start: { line: diagnostic.location.row, col: diagnostic.location.column },
+        end: { line: diagnostic.end_location.row, col: diagnostic.end_location.column },
+        extra: {
+            message: diagnostic.message,
+            severity: !diagnostic.code || diagnostic.code.startsWith('E9') ? 'ERROR' : diagnostic.code.startsWith('S') ? 'WARNING' : 'INFO',
+            metadata: {
+                category: diagnostic.code?.startsWith('S') ? 'security' : undefined,
+                references: diagnostic.url ? [diagnostic.url] : undefined
+            }
+        }
+    }));
+    return { results, errors: [] };
 }
 
-function generateISPPrompt(violations: ISPResult[], filePath: string): string {
-    const fileName = path.basename(filePath);
+async function runSemgrepScan(config: SemgrepConfig, targets: EngineTarget[], token: vscode.CancellationToken): Promise<SemgrepResult> {
+    await checkSemgrepInstallation(config);
     
-    let prompt = `# Interface Segregation Principle Violation Analysis\n\n`;
-    prompt += `**File:** ${fileName}\n\n`;
-    prompt += `The following class(es)/interface(s) may violate the Interface Segregation Principle:\n\n`;
-    
-    for (const violation of violations) {
-        if (violation.isInterface) {
-            prompt += `## Interface: ${violation.className} (Fat Interface)\n`;
-            prompt += `- **Abstract Method Count (IFS):** ${violation.abstractMethodCount}\n`;
-            prompt += `- **Recommended:** Split into smaller interfaces with 3-5 methods each\n\n`;
-        } else {
-            prompt += `## Class: ${violation.className} (Forced Implementation)\n`;
-            prompt += `- **Stub Implementation Ratio (SIR):** ${(violation.sir * 100).toFixed(0)}%\n`;
-            prompt += `- **Empty Implementations:** ${violation.emptyImplementations}\n`;
-            prompt += `- **NotImplementedError Methods:** ${violation.notImplementedErrors}\n\n`;
-        }
-        
-        if (violation.violations.length > 0) {
-            prompt += `### Detected Issues:\n`;
-            for (const v of violation.violations.slice(0, 10)) {
-                const typeLabel = v.type === 'fat_interface' ? 'Fat Interface' :
-                                 v.type === 'empty_implementation' ? 'Empty Method' : 'NotImplementedError';
-                if (v.methodName) {
-                    prompt += `- **${typeLabel}:** \`${v.methodName}\` at line ${v.line + 1}\n`;
-                } else {
-                    prompt += `- **${typeLabel}:** ${v.code}\n`;
+    const serverMode = getSettings(vscode.Uri.file(config.workspaceFolder)).get<boolean>('serverMode');
+    if (serverMode && serverCrashCount < MAX_SERVER_RESTARTS && targets.every(t => t.text !== undefined && t.languageId)) {
+        try {
+            const combined: SemgrepResult = { results: [], errors: [] };
+            for (const target of targets) {
+                if (token.isCancellationRequested) {
+                    throw new vscode.CancellationError();
                 }
+                const result = await scanWithServer(config, target.path, target.text!, target.languageId!, token);
+                combined.results.push(...result.results);
+                combined.errors.push(...result.errors);
             }
-            if (violation.violations.length > 10) {
-                prompt += `- ... and ${violation.violations.length - 10} more\n`;
+            return combined;
+        } catch (error) {
+            if (error instanceof vscode.CancellationError) {
+                throw error;
             }
+            outputChannel.appendLine(`Semgrep server scan failed, falling back to one-shot scan: ${error}`);
         }
-        
-        prompt += `\n### Recommended Refactoring:\n`;
-        prompt += `${violation.suggestion}\n\n`;
     }
+    return runSemgrep(config, targets.map(t => t.path), token);
+}
+
+function getEnabledEngines(scope: vscode.Uri): AnalysisEngine[] {
+    const settings = getSettings(scope);
+    return ENGINES.filter(e => settings.get<boolean>(e.setting));
+}
+
+function isEngineDiagnostic(diagnostic: vscode.Diagnostic): boolean {
+    return ENGINES.some(e => e.id === diagnostic.source);
+}
+
+function getConfigKey(config: SemgrepConfig): string {
+    return JSON.stringify(config);
+}
+
+function getServerConfigKey(config: SemgrepConfig): string {
+    const { semgrepPath, rulesPaths, enableSecurityRules, workspaceFolder, include, exclude, maxFileSize, jobs, ruleTimeout, maxMemory } = config;
+    return JSON.stringify({ semgrepPath, rulesPaths, enableSecurityRules, workspaceFolder, include, exclude, maxFileSize, jobs, ruleTimeout, maxMemory });
+}
+
+async function restartSemgrepServer(): Promise<void> {
+    await stopAllSemgrepServers();
+    serverCrashCount = 0;
     
-    prompt += `---\n`;
-    prompt += `**Action Required:** Split large interfaces into smaller, role-specific interfaces. `;
-    prompt += `Classes should only implement interfaces whose methods they actually use.\n`;
-    
-    return prompt;
+    for (const config of getAllConfigs()) {
+        if (!getSettings(vscode.Uri.file(config.workspaceFolder)).get<boolean>('serverMode')) {
+            continue;
+        }
+        try {
+            await getSemgrepServer(config);
+        } catch (error) {
+            outputChannel.appendLine(`Failed to start semgrep server: ${error}`);
+        }
+    }
 }
 
-export function deactivate() {
-    if (diagnosticCollection) {
-        diagnosticCollection.dispose();
+async function getSemgrepServer(config: SemgrepConfig): Promise<SemgrepServerState> {
+    const configKey = getServerConfigKey(config);
+    let server = semgrepServers.get(configKey);
+    if (!server) {
+        for (const replaced of [...semgrepServers.values()].filter(s => s.workspaceFolder === config.workspaceFolder)) {
+            stopSemgrepServer(replaced);
+        }
+        server = startSemgrepServer(config, configKey);
+        semgrepServers.set(configKey, server);
     }
-    if (outputChannel) {
+    try {
+        await server.ready;
+    } catch (error) {
+        if (semgrepServers.get(configKey) === server) {
+            await stopSemgrepServer(server);
+            serverCrashCount++;
+        }
+        throw error;
+    }
+    return server;
+}
+
+function startSemgrepServer(config: SemgrepConfig, configKey: string): SemgrepServerState {
+    const { semgrepPath, rulesPaths, workspaceFolder } = config;
+    outputChannel.appendLine(`Starting semgrep server: ${semgrepPath} lsp`);
+    
+    const proc = spawn(semgrepPath, ['lsp'], {
+        cwd: workspaceFolder || undefined
+    });
+    
+    const server: SemgrepServerState = {
+        process: proc,
+        configKey,
+        workspaceFolder,
+        buffer: Buffer.alloc(0),
+        nextRequestId: 1,
+        pendingRequests: new Map(),
+        diagnosticWaiters: new Map(),
+        ready: Promise.resolve(),
+        stopping: false,
+        exited: false
+    };
+    
+    proc.stdout.on('data', (data: Buffer) => {
+        handleServerData(server, data);
+    });
+    
+    proc.stderr.on('data', (data) => {
+        const message = data.toString().trim();
+        if (message && !message.includes('UserWarning')) {
+            outputChannel.appendLine(`Semgrep server stderr: ${message}`);
+        }
+    });
+    
+    proc.on('error', (error) => {
+        handleServerExit(server, `Failed to run semgrep server: ${error.message}`);
+    });
+    
+    proc.on('exit', (code, signal) => {
+        handleServerExit(server, `Semgrep server exited (code ${code}, signal ${signal})`);
+    });
+    
+    server.ready = withTimeout(
+        sendServerRequest(server, 'initialize', {
+            processId: process.pid,
+            rootUri: workspaceFolder ? vscode.Uri.file(workspaceFolder).toString() : null,
+            workspaceFolders: workspaceFolder
+                ? [{ uri: vscode.Uri.file(workspaceFolder).toString(), name: path.basename(workspaceFolder) }]
+                : null,
+            capabilities: {},
+            initializationOptions: {
+                scan: {
+                    configuration: rulesPaths,
+                    exclude: config.exclude,
+                    include: config.include,
+                    jobs: config.jobs,
+                    maxMemory: config.maxMemory,
+                    maxTargetBytes: config.maxFileSize,
+                    timeout: config.ruleTimeout,
+                    onlyGitDirty: false,
+                    ci: false
+                },
+                trace: { server: 'off' },
+                metrics: { enabled: false },
+                doHover: false
+            }
+        }),
+        SERVER_INIT_TIMEOUT_MS,
+        'Semgrep server initialization timed out'
+    ).then(() => {
+        sendServerMessage(server, { jsonrpc: '2.0', method: 'initialized', params: {} });
+        outputChannel.appendLine('Semgrep server ready');
+    });
+    
+    return server;
+}
+
+function handleServerExit(server: SemgrepServerState, reason: string): void {
+    if (server.exited) {
+        return;
+    }
+    server.exited = true;
+    if (semgrepServers.get(server.configKey) === server) {
+        semgrepServers.delete(server.configKey);
+    }
+    
+    const error = new Error(reason);
+    for (const pending of server.pendingRequests.values()) {
+        pending.reject(error);
+    }
+    server.pendingRequests.clear();
+    server.diagnosticWaiters.clear();
+    
+    if (!server.stopping) {
+        countServerFailure(reason);
+    }
+}
+
+function countServerFailure(reason: string): void {
+    serverCrashCount++;
+    outputChannel.appendLine(reason);
+    if (serverCrashCount >= MAX_SERVER_RESTARTS) {
+        outputChannel.appendLine('Semgrep server failed repeatedly, using one-shot scans until the configuration changes');
+    }
+}
+
+async function stopAllSemgrepServers(): Promise<void> {
+    await Promise.all([...semgrepServers.values()].map(stopSemgrepServer));
+}
+
+async function stopSemgrepServer(server: SemgrepServerState): Promise<void> {
+    if (semgrepServers.get(server.configKey) === server) {
+        semgrepServers.delete(server.configKey);
+    }
+    server.stopping = true;
+    
+    try {
+        await withTimeout(sendServerRequest(server, 'shutdown', null), 2000, 'Semgrep server shutdown timed out');
+        sendServerMessage(server, { jsonrpc: '2.0', method: 'exit' });
+    } catch (error) {
+        outputChannel.appendLine(`${error}`);
+    } finally {
+        server.process.kill();
+    }
+}
+
+function sendServerMessage(server: SemgrepServerState, message: object): void {
+    const body = Buffer.from(JSON.stringify(message), 'utf8');
+    server.process.stdin?.write(`Content-Length: ${body.length}\r\n\r\n`);
+    server.process.stdin?.write(body);
+}
+
+function sendServerRequest(server: SemgrepServerState, method: string, params: unknown): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+        const id = server.nextRequestId++;
+        server.pendingRequests.set(id, { resolve, reject });
+        sendServerMessage(server, { jsonrpc: '2.0', id, method, params });
+    });
+}
+
+function handleServerData(server: SemgrepServerState, data: Buffer): void {
+    server.buffer = Buffer.concat([server.buffer, data]);
+    
+    while (true) {
+        const headerEnd = server.buffer.indexOf('\r\n\r\n');
+        if (headerEnd < 0) {
+            return;
+        }
+        
+        const header = server.buffer.subarray(0, headerEnd).toString('ascii');
+        const lengthMatch = header.match(/Content-Length:\s*(\d+)/i);
+        if (!lengthMatch) {
+            server.buffer = server.buffer.subarray(headerEnd + 4);
+            continue;
+        }
+        
+        const bodyStart = headerEnd + 4;
+        const bodyEnd = bodyStart + parseInt(lengthMatch[1], 10);
+        if (server.buffer.length < bodyEnd) {
+            return;
+        }
+        
+        const body = server.buffer.subarray(bodyStart, bodyEnd).toString('utf8');
+        server.buffer = server.buffer.subarray(bodyEnd);
+        
+        try {
+            handleServerMessage(server, JSON.parse(body) as LspMessage);
+        } catch (error) {
+            outputChannel.appendLine(`Invalid message from semgrep server: ${error}`);
+        }
+    }
+}
+
+function handleServerMessage(server: SemgrepServerState, message: LspMessage): void {
+    if (message.method === 'textDocument/publishDiagnostics') {
+        if (isPublishDiagnosticsParams(message.params)) {
+            const key = path.normalize(vscode.Uri.parse(message.params.uri).fsPath);
+            const waiter = server.diagnosticWaiters.get(key);
+            if (waiter) {
+                server.diagnosticWaiters.delete(key);
+                waiter(Array.isArray(message.params.diagnostics) ? message.params.diagnostics : []);
+            }
+        }
+        return;
+    }
+    
+    if (message.method && message.id !== undefined) {
+        sendServerMessage(server, { jsonrpc: '2.0', id: message.id, result: null });
+        return;
+    }
+    
+    if (message.id !== undefined) {
+        const pending = server.pendingRequests.get(message.id);
+        if (pending) {
+            server.pendingRequests.delete(message.id);
+            if (message.error) {
+                pending.reject(new Error(message.error.message));
+            } else {
+                pending.resolve(message.result);
+            }
+        }
+    }
+}
+
+function isPublishDiagnosticsParams(params: unknown): params is LspPublishDiagnosticsParams {
+    return typeof params === 'object' && params !== null && typeof (params as { uri?: unknown }).uri === 'string';
+}
+
+async function scanWithServer(
+    config: SemgrepConfig,
+    targetPath: string,
+    text: string,
+    languageId: string,
+    token: vscode.CancellationToken
+): Promise<SemgrepResult> {
+    const server = await getSemgrepServer(config);
+    const uri = vscode.Uri.file(targetPath).toString();
+    const key = path.normalize(targetPath);
+    
+    const diagnosticsPromise = new Promise<LspDiagnostic[]>((resolve) => {
+        server.diagnosticWaiters.set(key, resolve);
+    });
+    
+    sendServerMessage(server, {
+        jsonrpc: '2.0',
+        method: 'textDocument/didOpen',
+        params: { textDocument: { uri, languageId, version: 1, text } }
+    });
+    
+    try {
+        const timeoutSeconds = getSettings(vscode.Uri.file(config.workspaceFolder)).get<number>('scanTimeout') ?? 120;
+        const diagnostics = await withCancellation(
+            timeoutSeconds > 0
+                ? withTimeout(diagnosticsPromise, timeoutSeconds * 1000, `Semgrep server scan timed out after ${timeoutSeconds}s`)
+                : diagnosticsPromise,
+            token
+        );
+        return {
+            results: diagnostics.map(d => lspDiagnosticToFinding(d, targetPath)),
+            errors: []
+        };
+    } catch (error) {
+        if (!(error instanceof vscode.CancellationError) && !server.stopping && !server.exited) {
+            countServerFailure(`${error}, stopping the semgrep server`);
+            stopSemgrepServer(server);
+        }
+        throw error;
+    } finally {
+        server.diagnosticWaiters.delete(key);
+        if (!server.stopping && !server.exited) {
+            sendServerMessage(server, {
+                jsonrpc: '2.0',
+                method: 'textDocument/didClose',
+                params: { textDocument: { uri } }
+            });
+        }
+    }
+}
+
+function lspDiagnosticToFinding(diagnostic: LspDiagnostic, targetPath: string): SemgrepFinding {
+    const severity = diagnostic.severity === 1 ? 'ERROR' : diagnostic.severity === 3 || diagnostic.severity === 4 ? 'INFO' : 'WARNING';
+    return {
+        check_id: diagnostic.code !== undefined ? String(diagnostic.code) : 'semgrep',
+        path: targetPath,
+        start: { line: diagnostic.range.start.line + 1, col: diagnostic.range.start.character + 1 },
+        end: { line: diagnostic.range.end.line + 1, col: diagnostic.range.end.character + 1 },
+        extra: {
+            message: diagnostic.message,
+            severity,
+            fix: diagnostic.data?.fix
+        }
+    };
+}
+
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number, message: string): Promise<T> {
+    return new Promise((resolve, reject) => {
+        const timer = setTimeout(() => reject(new Error(message)), timeoutMs);
+        promise.then(
+            (value) => {
+                clearTimeout(timer);
+                resolve(value);
+            },
+            (error) => {
+                clearTimeout(timer);
+                reject(error);
+            }
+        );
+    });
+}
+
+function withCancellation<T>(promise: Promise<T>, token: vscode.CancellationToken): Promise<T> {
+    return new Promise((resolve, reject) => {
+        if (token.isCancellationRequested) {
+            reject(new vscode.CancellationError());
+            return;
+        }
+        const listener = token.onCancellationRequested(() => reject(new vscode.CancellationError()));
+        promise.then(
+            (value) => {
+                listener.dispose();
+                resolve(value);
+            },
+            (error) => {
+                listener.dispose();
+                reject(error);
+            }
+        );
+    });
+}
+
+function filterFindingsForPath(results: SemgrepResult, filePath: string, cwd: string): SemgrepFinding[] {
+    const findings: SemgrepFinding[] = [];
+    
+    for (const finding of results.results) {
+        const findingPath = path.isAbsolute(finding.path) 
+            ? finding.path 
+            : path.resolve(cwd, finding.path);
+        
+        if (path.normalize(findingPath) === path.normalize(filePath)) {
+            findings.push(finding);
+        }
+    }
+    
+    return findings;
+}
+
+function filterErrorsForPath(results: SemgrepResult, filePath: string, cwd: string): SemgrepError[] {
+    return (results.errors || []).filter(e => e.path && path.normalize(path.resolve(cwd, e.path)) === path.normalize(filePath));
+}
+
+function getErrorType(error: SemgrepError): string {
+    if (Array.isArray(error.type)) {
+        return String(error.type[0]);
+    }
+    return error.type || 'SemgrepError';
+}
+
+function createErrorDiagnostic(error: SemgrepError): vscode.Diagnostic {
+    const span = error.spans?.[0];
+    const range = span
+        ? new vscode.Range(Math.max(0, span.start.line - 1), Math.max(0, span.start.col - 1), Math.max(0, span.end.line - 1), Math.max(0, span.end.col - 1))
+        : new vscode.Range(0, 0, 0, 0);
+    
+    const ruleInfo = error.rule_id ? ` (rule ${error.rule_id})` : '';
+    const diagnostic = new vscode.Diagnostic(
+        range,
+        `Semgrep ${getErrorType(error)}${ruleInfo}: ${error.message}`,
+        error.level === 'error' && !error.path ? vscode.DiagnosticSeverity.Error : vscode.DiagnosticSeverity.Warning
+    );
+    diagnostic.source = 'semgrep';
+    diagnostic.code = getErrorType(error);
+    semgrepErrorDiagnostics.add(diagnostic);
+    
+    return diagnostic;
+}
+
+function isRuleError(error: SemgrepError, config: SemgrepConfig): boolean {
+    const rulesFiles = config.rulesPaths.map(rp => path.resolve(config.workspaceFolder, rp));
+    if (error.spans?.some(span => rulesFiles.some(rf => span.file && path.resolve(config.workspaceFolder, span.file).startsWith(rf)))) {
+        return true;
+    }
+    return !error.path && /rule|yaml|config|pattern/i.test(getErrorType(error));
+}
+
+function reportSemgrepErrors(results: SemgrepResult, config: SemgrepConfig): boolean {
+    const errors = results.errors || [];
+    
+    for (const uri of rulesDiagnosticUris.get(config.workspaceFolder) || []) {
+        rulesDiagnosticCollection.delete(uri);
+    }
+    
+    const ruleErrors = errors.filter(e => isRuleError(e, config));
+    const ruleFileGroups = new Map<string, vscode.Diagnostic[]>();
+    for (const error of ruleErrors) {
+        const rulesFile = error.spans?.[0]?.file
+            ? path.resolve(config.workspaceFolder, error.spans[0].file)
+            : config.rulesPaths[0];
+        if (!ruleFileGroups.has(rulesFile)) {
+            ruleFileGroups.set(rulesFile, []);
+        }
+        ruleFileGroups.get(rulesFile)!.push(createErrorDiagnostic(error));
+    }
+    for (const [rulesFile, diagnostics] of ruleFileGroups) {
+        rulesDiagnosticCollection.set(vscode.Uri.file(rulesFile), diagnostics);
+    }
+    rulesDiagnosticUris.set(config.workspaceFolder, [...ruleFileGroups.keys()].map(f => vscode.Uri.file(f)));
+    
+    const otherErrors = errors.filter(e => !ruleErrors.includes(e));
+    for (const error of errors) {
+        outputChannel.appendLine(`Semgrep ${error.level} ${getErrorType(error)}${error.path ? ` in ${error.path}` : ''}: ${error.message}`);
+    }
+    
+    if (ruleErrors.length > 0) {
+        setStatusError('invalid rules', ruleErrors.map(e => e.message).join('\n'));
+        return true;
+    }
+    if (otherErrors.length > 0) {
+        const targetCount = otherErrors.filter(e => e.path).length;
+        const summary = targetCount > 0
+            ? `${targetCount} file error(s)`
+            : `${otherErrors.length} error(s)`;
+        setStatusError(summary, otherErrors.map(e => `${e.path ? `${e.path}: ` : ''}${e.message}`).slice(0, 5).join('\n'));
+        return true;
+    }
+    
+    return false;
+}
+
+function clearRulesDiagnostics(): void {
+    rulesDiagnosticCollection.clear();
+    rulesDiagnosticUris.clear();
+}
+
+function describeScanError(error: unknown): string {
+    const message = `${error}`;
+    const missingTool = message.match(/Failed to run (\w+):.*ENOENT/);
+    if (missingTool) {
+        return `${missingTool[1]} not found`;
+    }
+    if (/ENOENT|semgrep not found/.test(message)) {
+        return 'semgrep not found';
+    }
+    if (/rules file not found/.test(message)) {
+        return 'rules file missing';
+    }
+    if (/timed out/i.test(message)) {
+        return 'timed out';
+    }
+    if (/Failed to parse \w+ output/.test(message)) {
+        return 'invalid output';
+    }
+    return 'scan failed';
+}
+
+function setStatusText(text: string): void {
+    statusBarItem.text = text;
+    statusBarItem.tooltip = STATUS_TOOLTIP;
+    statusBarItem.backgroundColor = undefined;
+}
+
+function setStatusError(summary: string, detail: string): void {
+    statusBarItem.text = `$(warning) Semgrep: ${summary}`;
+    statusBarItem.tooltip = `Semgrep Offline - ${summary}\n\n${detail}\n\nSee the Semgrep Offline output for details.`;
+    statusBarItem.backgroundColor = new vscode.ThemeColor('statusBarItem.warningBackground');
+}
+
+function getFixableDiagnostics(uri: vscode.Uri): vscode.Diagnostic[] {
+    return (diagnosticCollection.get(uri) || []).filter(d => semgrepFixes.has(d));
+}
+
+function getFixText(fix: SemgrepFix, matchedText: string): string | null {
+    if (fix.fix !== undefined) {
+        return fix.fix === matchedText ? null : fix.fix;
+    }
+    if (!fix.fixRegex) {
+        return null;
+    }
+    
+    let regex: RegExp;
+    try {
+        regex = new RegExp(fix.fixRegex.regex, 'g');
+    } catch {
+        return null;
+    }
+    const replacement = fix.fixRegex.replacement.replace(/\\(\d+)/g, '$$$1');
+    let remaining = fix.fixRegex.count ?? Infinity;
+    const fixed = matchedText.replace(regex, (...args) => {
+        if (remaining <= 0) {
+            return args[0];
+        }
+        remaining--;
+        return args[0].replace(new RegExp(regex.source), replacement);
+    });
+    return fixed === matchedText ? null : fixed;
+}
+
+async function getRangeText(uri: vscode.Uri, range: vscode.Range, cache: Map<string, string[]>): Promise<string> {
+    const document = vscode.workspace.textDocuments.find(d => d.uri.toString() === uri.toString());
+    if (document) {
+        return document.getText(range);
+    }
+    
+    let lines = cache.get(uri.toString());
+    if (!lines) {
+        lines = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8').split(/\r?\n/);
+        cache.set(uri.toString(), lines);
+    }
+    const selected = lines.slice(range.start.line, range.end.line + 1);
+    if (selected.length === 0) {
+        return '';
+    }
+    selected[selected.length - 1] = selected[selected.length - 1].slice(0, range.end.character);
+    selected[0] = selected[0].slice(range.start.character);
+    return selected.join('\n');
+}
+
+async function buildFixEdit(targets: { uri: vscode.Uri; diagnostics: vscode.Diagnostic[] }[]): Promise<vscode.WorkspaceEdit> {
+    const edit = new vscode.WorkspaceEdit();
+    const fileCache = new Map<string, string[]>();
+    
+    for (const { uri, diagnostics } of targets) {
+        const sorted = [...diagnostics].sort((a, b) => a.range.start.compareTo(b.range.start));
+        let lastEnd: vscode.Position | null = null;
+        for (const diagnostic of sorted) {
+            if (lastEnd && diagnostic.range.start.isBefore(lastEnd)) {
+                continue;
+            }
+            const fixText = getFixText(semgrepFixes.get(diagnostic)!, await getRangeText(uri, diagnostic.range, fileCache));
+            if (fixText !== null) {
+                edit.replace(uri, diagnostic.range, fixText);
+                lastEnd = diagnostic.range.end;
+            }
+        }
+    }
+    
+    return edit;
+}
+
+function createFixAction(title: string, kind: vscode.CodeActionKind, targets: { uri: vscode.Uri; diagnostics: vscode.Diagnostic[] }[]): vscode.CodeAction {
+    const action = new vscode.CodeAction(title, kind);
+    action.diagnostics = targets.flatMap(t => t.diagnostics);
+    action.command = {
+        command: 'semgrep-offline.rescanFixedFiles',
+        title: 'Rescan fixed files',
+        arguments: [targets.map(t => t.uri)]
+    };
+    pendingFixActions.set(action, targets);
+    return action;
+}
+
+async function provideFixActions(document: vscode.TextDocument, range: vscode.Range | vscode.Selection, context: vscode.CodeActionContext): Promise<vscode.CodeAction[]> {
+    const fixable = getFixableDiagnostics(document.uri);
+    if (fixable.length === 0) {
+        return [];
+    }
+    
+    const fileTargets = [{ uri: document.uri, diagnostics: fixable }];
+    if (context.only && context.only.contains(FIX_ALL_KIND)) {
+        const action = createFixAction('Fix all semgrep findings in file', FIX_ALL_KIND, fileTargets);
+        action.edit = await buildFixEdit(fileTargets);
+        return [action];
+    }
+    
+    const actions: vscode.CodeAction[] = [];
+    const inRange = fixable.filter(d => d.range.intersection(range));
+    
+    for (const diagnostic of inRange) {
+        const targets = [{ uri: document.uri, diagnostics: [diagnostic] }];
+        const action = createFixAction(`Apply semgrep fix for ${semgrepFixes.get(diagnostic)!.checkId}`, vscode.CodeActionKind.QuickFix, targets);
+        action.isPreferred = true;
+        action.edit = await buildFixEdit(targets);
+        if (action.edit.size > 0) {
+            actions.push(action);
+        }
+    }
+    if (inRange.length === 0) {
+        return actions;
+    }
+    
+    if (fixable.length > 1) {
+        actions.push(createFixAction(`Fix all semgrep findings in file (${fixable.length})`, vscode.CodeActionKind.QuickFix, fileTargets));
+    }
+    
+    for (const checkId of new Set(inRange.map(d => semgrepFixes.get(d)!.checkId))) {
+        const ruleTargets: { uri: vscode.Uri; diagnostics: vscode.Diagnostic[] }[] = [];
+        diagnosticCollection.forEach((uri, diagnostics) => {
+            const matching = diagnostics.filter(d => semgrepFixes.get(d)?.checkId === checkId);
+            if (matching.length > 0) {
+                ruleTargets.push({ uri, diagnostics: matching });
+            }
+        });
+        const count = ruleTargets.reduce((sum, t) => sum + t.diagnostics.length, 0);
+        if (count > 1) {
+            actions.push(createFixAction(`Fix all ${checkId} findings (${count} in ${ruleTargets.length} file(s))`, vscode.CodeActionKind.QuickFix, ruleTargets));
+        }
+    }
+    
+    return actions;
+}
+
+async function resolveFixAction(action: vscode.CodeAction): Promise<vscode.CodeAction> {
+    const targets = pendingFixActions.get(action);
+    if (targets && !action.edit) {
+        action.edit = await buildFixEdit(targets);
+    }
+    return action;
+}
+
+function rescanFixedFiles(uris: vscode.Uri[]): void {
+    for (const uri of uris) {
+        const document = vscode.workspace.textDocuments.find(d => d.uri.toString() === uri.toString());
+        if (document) {
+            scanFile(document, true);
+            runSolidChecks(document);
+        }
+    }
+}
+
+function getLineCommentPrefix(languageId: string): string {
+    return HASH_COMMENT_LANGUAGES.includes(languageId) ? '#' : '//';
+}
+
+function getDiagnosticCode(diagnostic: vscode.Diagnostic): string {
+    const code = typeof diagnostic.code === 'object' ? diagnostic.code.value : diagnostic.code;
+    return code !== undefined ? String(code) : '';
+}
+
+function getSuppressionMarker(diagnostic: vscode.Diagnostic): { marker: string; title: string } | null {
+    if (diagnostic.source === 'semgrep' && !semgrepErrorDiagnostics.has(diagnostic)) {
+        const checkId = getDiagnosticCode(diagnostic);
+        return { marker: `nosemgrep: ${checkId}`, title: `Suppress ${checkId} with nosemgrep` };
+    }
+    const check = SOLID_CHECKS.find(c => c.source === diagnostic.source);
+    if (check) {
+        return { marker: `solid: ignore[${check.principle}]`, title: `Suppress ${check.principle} finding with solid: ignore` };
+    }
+    return null;
+}
+
+function provideSuppressionActions(document: vscode.TextDocument, range: vscode.Range | vscode.Selection): vscode.CodeAction[] {
+    const actions: vscode.CodeAction[] = [];
+    const seen = new Set<string>();
+    
+    for (const diagnostic of (diagnosticCollection.get(document.uri) || []).filter(d => d.range.intersection(range))) {
+        const suppression = getSuppressionMarker(diagnostic);
+        if (!suppression) {
+            continue;
+        }
+        const { marker, title } = suppression;
+        
+        const line = diagnostic.range.start.line;
+        if (seen.has(`${line}:${marker}`)) {
+            continue;
+        }
+        seen.add(`${line}:${marker}`);
+        
+        const action = new vscode.CodeAction(title, vscode.CodeActionKind.QuickFix);
+        action.diagnostics = [diagnostic];
+        action.command = {
+            command: 'semgrep-offline.suppressFinding',
+            title,
+            arguments: [document.uri, line, marker]
+        };
+        actions.push(action);
+        
+        if (diagnosticFindings.has(diagnostic)) {
+            const checkId = getDiagnosticCode(diagnostic);
+            const goToRule = new vscode.CodeAction(`Go to rule definition: ${getShortRuleId(checkId)}`, vscode.CodeActionKind.QuickFix);
+            goToRule.command = {
+                command: 'semgrep-offline.goToRuleDefinition',
+                title: goToRule.title,
+                arguments: [document.uri, checkId]
+            };
+            actions.push(goToRule);
+        }
+    }
+    
+    return actions;
+}
+
+async function suppressFinding(uri: vscode.Uri, line: number, marker: string): Promise<void> {
+    const reason = await vscode.window.showInputBox({
+        prompt: `Reason for suppressing (${marker})`,
+        placeHolder: 'e.g. input is validated by the caller',
+        validateInput: value => value.trim() ? null : 'A reason is required'
+    });
+    if (!reason?.trim()) {
+        return;
+    }
+    
+    const document = await vscode.workspace.openTextDocument(uri);
+    const targetLine = document.lineAt(line);
+    const indent = targetLine.text.slice(0, targetLine.firstNonWhitespaceCharacterIndex);
+    const separator = marker.startsWith('nosemgrep') ? ' -- ' : ' ';
+    const comment = `${indent}${getLineCommentPrefix(document.languageId)} ${marker}${separator}${reason.trim()}\n`;
+    
+    const edit = new vscode.WorkspaceEdit();
+    edit.insert(uri, new vscode.Position(line, 0), comment);
+    if (!await vscode.workspace.applyEdit(edit)) {
+        return;
+    }
+    
+    const check = SOLID_CHECKS.find(c => marker === `solid: ignore[${c.principle}]`);
+    if (check) {
+        check.run(document, true);
+    } else {
+        scanFile(document, true);
+    }
+}
+
+function parseSuppressions(uri: vscode.Uri, text: string): Suppression[] {
+    const suppressions: Suppression[] = [];
+    const lines = text.split('\n');
+    
+    lines.forEach((line, index) => {
+        const nosemgrep = line.match(NOSEMGREP_PATTERN);
+        if (nosemgrep) {
+            suppressions.push({
+                uri,
+                line: index,
+                marker: nosemgrep[1] ? `nosemgrep: ${nosemgrep[1]}` : 'nosemgrep',
+                reason: nosemgrep[2]?.trim() || ''
+            });
+        }
+        const solid = line.match(SOLID_SUPPRESSION_PATTERN);
+        if (solid) {
+            suppressions.push({
+                uri,
+                line: index,
+                marker: `solid: ignore[${solid[1].replace(/\s/g, '')}]`,
+                reason: solid[2]?.trim() || ''
+            });
+        }
+    });
+    
+    return suppressions;
+}
+
+async function listSuppressions(): Promise<void> {
+    const folders = vscode.workspace.workspaceFolders;
+    if (!folders || folders.length === 0) {
+        vscode.window.showWarningMessage('No workspace folder open');
+        return;
+    }
+    
+    const suppressions = await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Window, title: 'Semgrep: Collecting suppressions' },
+        async () => {
+            const tokenSource = new vscode.CancellationTokenSource();
+            const found: Suppression[] = [];
+            try {
+                for (const folder of folders) {
+                    for (const uri of await findWorkspaceTargets(folder, tokenSource.token)) {
+                        const document = vscode.workspace.textDocuments.find(d => d.uri.toString() === uri.toString());
+                        const text = document ? document.getText() : Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+                        found.push(...parseSuppressions(uri, text));
+                    }
+                }
+            } finally {
+                tokenSource.dispose();
+            }
+            return found;
+        }
+    );
+    
+    outputChannel.appendLine(`\n=== Suppressions (${suppressions.length}) ===`);
+    for (const suppression of suppressions) {
+        outputChannel.appendLine(`${vscode.workspace.asRelativePath(suppression.uri)}:${suppression.line + 1}  ${suppression.marker}  ${suppression.reason || '(no reason)'}`);
+    }
+    
+    if (suppressions.length === 0) {
+        vscode.window.showInformationMessage('No suppressions found in the workspace.');
+        return;
+    }
+    
+    const picked = await vscode.window.showQuickPick(
+        suppressions.map(suppression => ({
+            label: `${suppression.reason ? '$(eye-closed)' : '$(warning)'} ${suppression.marker}`,
+            description: suppression.reason || 'no reason given',
+            detail: `${vscode.workspace.asRelativePath(suppression.uri)}:${suppression.line + 1}`,
+            suppression
+        })),
+        { placeHolder: `${suppressions.length} suppression(s) in the workspace`, matchOnDescription: true, matchOnDetail: true }
+    );
+    if (picked) {
+        const position = new vscode.Position(picked.suppression.line, 0);
+        await vscode.window.showTextDocument(picked.suppression.uri, { selection: new vscode.Range(position, position) });
+    }
+}
+
+function getFindingEntries(): FindingEntry[] {
+    const entries: FindingEntry[] = [];
+    const filter = findingsFilter.toLowerCase();
+    
+    diagnosticCollection.forEach((uri, diagnostics) => {
+        for (const diagnostic of diagnostics) {
+            if (filter) {
+                const haystack = `${diagnostic.message}\n${getDiagnosticCode(diagnostic)}\n${diagnostic.source}\n${vscode.workspace.asRelativePath(uri)}`.toLowerCase();
+                if (!haystack.includes(filter)) {
+                    continue;
+                }
+            }
+            entries.push({ uri, diagnostic });
+        }
+    });
+    
+    return entries;
+}
+
+function getFindingGroupLabel(entry: FindingEntry, groupBy: FindingsGroupBy): string {
+    const { uri, diagnostic } = entry;
+    const check = SOLID_CHECKS.find(c => c.source === diagnostic.source);
+    
+    switch (groupBy) {
+        case 'file':
+            return vscode.workspace.asRelativePath(uri);
+        case 'severity':
+            return SEVERITY_LABELS[diagnostic.severity];
+        case 'principle':
+            return check ? check.principle : 'Semgrep';
+        case 'category': {
+            if (check) {
+                return 'SOLID';
+            }
+            const finding = diagnosticFindings.get(diagnostic);
+            const owasp = finding?.extra.metadata?.owasp;
+            const cwes = finding ? getFindingCwes(finding) : [];
+            if (owasp) {
+                return String(Array.isArray(owasp) ? owasp[0] : owasp);
+            }
+            return cwes[0] || (finding?.extra.metadata?.category !== undefined ? String(finding.extra.metadata.category) : 'Uncategorized');
+        }
+        case 'rule':
+        default:
+            return check ? `${check.principle}: ${getDiagnosticCode(diagnostic)}` : getShortRuleId(getDiagnosticCode(diagnostic));
+    }
+}
+
+function getFindingsTreeChildren(node?: FindingsTreeNode): FindingsTreeNode[] {
+    if (node?.kind === 'group') {
+        return node.findings
+            .sort((a, b) => a.uri.fsPath.localeCompare(b.uri.fsPath) || a.diagnostic.range.start.line - b.diagnostic.range.start.line)
+            .map(entry => ({ kind: 'finding', entry }));
+    }
+    if (node) {
+        return [];
+    }
+    
+    const groups = new Map<string, FindingEntry[]>();
+    for (const entry of getFindingEntries()) {
+        const label = getFindingGroupLabel(entry, findingsGroupBy);
+        if (!groups.has(label)) {
+            groups.set(label, []);
+        }
+        groups.get(label)!.push(entry);
+    }
+    
+    const sortedLabels = findingsGroupBy === 'severity'
+        ? [...groups.keys()].sort((a, b) => SEVERITY_LABELS.indexOf(a) - SEVERITY_LABELS.indexOf(b))
+        : [...groups.keys()].sort((a, b) => groups.get(b)!.length - groups.get(a)!.length || a.localeCompare(b));
+    return sortedLabels.map(label => ({ kind: 'group', label, findings: groups.get(label)! }));
+}
+
+function getFindingsTreeItem(node: FindingsTreeNode): vscode.TreeItem {
+    if (node.kind === 'group') {
+        const item = new vscode.TreeItem(
+            node.label,
+            findingsGroupBy === 'file' ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.Expanded
+        );
+        item.description = `${node.findings.length}`;
+        item.contextValue = 'group';
+        if (findingsGroupBy === 'file') {
+            item.resourceUri = node.findings[0].uri;
+            item.iconPath = vscode.ThemeIcon.File;
+        }
+        return item;
+    }
+    
+    const { uri, diagnostic } = node.entry;
+    const item = new vscode.TreeItem(diagnostic.message.split('\n')[0], vscode.TreeItemCollapsibleState.None);
+    item.description = findingsGroupBy === 'file'
+        ? `line ${diagnostic.range.start.line + 1}`
+        : `${vscode.workspace.asRelativePath(uri)}:${diagnostic.range.start.line + 1}`;
+    item.tooltip = new vscode.MarkdownString(`**${diagnostic.source}** \`${getDiagnosticCode(diagnostic)}\`\n\n${diagnostic.message}`);
+    item.iconPath = new vscode.ThemeIcon(['error', 'warning', 'info', 'lightbulb'][diagnostic.severity]);
+    item.contextValue = diagnostic.source === 'semgrep' ? 'finding.semgrep'
+        : isEngineDiagnostic(diagnostic) ? 'finding.engine' : 'finding.solid';
+    item.command = {
+        command: 'vscode.open',
+        title: 'Open Finding',
+        arguments: [uri, { selection: diagnostic.range }]
+    };
+    return item;
+}
+
+async function pickFindingsGroupBy(): Promise<void> {
+    const options: { label: string; groupBy: FindingsGroupBy }[] = [
+        { label: 'Rule', groupBy: 'rule' },
+        { label: 'File', groupBy: 'file' },
+        { label: 'Severity', groupBy: 'severity' },
+        { label: 'CWE/OWASP Category', groupBy: 'category' },
+        { label: 'SOLID Principle', groupBy: 'principle' }
+    ];
+    const picked = await vscode.window.showQuickPick(
+        options.map(o => ({ ...o, description: o.groupBy === findingsGroupBy ? 'current' : undefined })),
+        { placeHolder: 'Group findings by' }
+    );
+    if (picked) {
+        findingsGroupBy = picked.groupBy;
+        workspaceState?.update(FINDINGS_GROUP_BY_STATE_KEY, findingsGroupBy);
+        findingsTreeEmitter.fire(undefined);
+    }
+}
+
+async function pickFindingsFilter(view: vscode.TreeView<FindingsTreeNode>): Promise<void> {
+    const filter = await vscode.window.showInputBox({
+        prompt: 'Show findings whose message, rule id, source or file path contains',
+        value: findingsFilter
+    });
+    if (filter !== undefined) {
+        setFindingsFilter(filter.trim(), view);
+    }
+}
+
+function setFindingsFilter(filter: string, view: vscode.TreeView<FindingsTreeNode>): void {
+    findingsFilter = filter;
+    view.message = filter ? `Filtered by "${filter}"` : undefined;
+    vscode.commands.executeCommand('setContext', 'semgrepOffline.findingsFiltered', !!filter);
+    findingsTreeEmitter.fire(undefined);
+}
+
+function getFindingPrompt(entry: FindingEntry): string {
+    const { uri, diagnostic } = entry;
+    const prompt = diagnosticPrompts.get(diagnostic);
+    if (prompt) {
+        return prompt;
+    }
+    
+    const lines = getFileLines(uri) || [];
+    const snippet = lines.slice(diagnostic.range.start.line, diagnostic.range.end.line + 1).join('\n');
+    return `Fix the following ${diagnostic.source} finding.
+
+File: ${uri.fsPath}
+Line: ${diagnostic.range.start.line + 1}
+Rule: ${getDiagnosticCode(diagnostic)}
+Issue: ${diagnostic.message}
+
+Code:
+\`\`\`
+${snippet}
+\`\`\`
+
+Change the code so the finding no longer applies without altering its behavior. Do not silence it with a nosemgrep comment.`;
+}
+
+function hasAgentPrompt(diagnostic: vscode.Diagnostic): boolean {
+    return diagnosticFindings.has(diagnostic) || diagnosticPrompts.has(diagnostic);
+}
+
+function providePromptActions(document: vscode.TextDocument, range: vscode.Range | vscode.Selection): vscode.CodeAction[] {
+    const actions: vscode.CodeAction[] = [];
+    
+    for (const diagnostic of (diagnosticCollection.get(document.uri) || []).filter(d => d.range.intersection(range) && hasAgentPrompt(d))) {
+        const prompt = getFindingPrompt({ uri: document.uri, diagnostic });
+        const label = getShortRuleId(getDiagnosticCode(diagnostic));
+        
+        const copyAction = new vscode.CodeAction(`Copy agent prompt: ${label}`, vscode.CodeActionKind.QuickFix);
+        copyAction.diagnostics = [diagnostic];
+        copyAction.command = { command: 'semgrep-offline.copyAgentPrompt', title: copyAction.title, arguments: [prompt] };
+        
+        const openAction = new vscode.CodeAction(`Open agent prompt in editor: ${label}`, vscode.CodeActionKind.QuickFix);
+        openAction.diagnostics = [diagnostic];
+        openAction.command = { command: 'semgrep-offline.openAgentPrompt', title: openAction.title, arguments: [prompt] };
+        
+        actions.push(copyAction, openAction);
+    }
+    
+    return actions;
+}
+
+async function copyAgentPrompt(prompt: string): Promise<void> {
+    await vscode.env.clipboard.writeText(prompt);
+    vscode.window.showInformationMessage('Agent prompt copied to clipboard.');
+}
+
+async function openAgentPrompt(prompt: string): Promise<void> {
+    const document = await vscode.workspace.openTextDocument({ language: 'markdown', content: prompt });
+    await vscode.window.showTextDocument(document, { preview: false });
+}
+
+function getCombinedPrompt(entries: FindingEntry[]): string {
+    const sections = entries.map((entry, index) => `## Finding ${index + 1} of ${entries.length}\n\n${getFindingPrompt(entry)}`);
+    return `# Findings to Fix\n\nAddress each of the following ${entries.length} finding(s). They may overlap; fix shared causes once.\n\n${sections.join('\n\n---\n\n')}\n`;
+}
+
+async function pickFindingsForPrompt(): Promise<FindingEntry[] | undefined> {
+    const entries = getFindingEntries().filter(e => hasAgentPrompt(e.diagnostic));
+    if (entries.length === 0) {
+        vscode.window.showInformationMessage('No semgrep or SOLID findings to build a prompt from.');
+        return undefined;
+    }
+    
+    const editor = vscode.window.activeTextEditor;
+    const isSelected = (entry: FindingEntry) => !!editor
+        && entry.uri.toString() === editor.document.uri.toString()
+        && editor.selections.some(selection => !!selection.intersection(entry.diagnostic.range));
+    
+    const picked = await vscode.window.showQuickPick(
+        entries.map(entry => ({
+            label: entry.diagnostic.message.split('\n')[0],
+            description: `${vscode.workspace.asRelativePath(entry.uri)}:${entry.diagnostic.range.start.line + 1}`,
+            detail: `${entry.diagnostic.source} ${getDiagnosticCode(entry.diagnostic)}`,
+            picked: isSelected(entry),
+            entry
+        })),
+        { canPickMany: true, placeHolder: 'Select the findings to include in the prompt', matchOnDescription: true, matchOnDetail: true }
+    );
+    return picked?.map(p => p.entry);
+}
+
+async function buildCombinedPrompt(node?: FindingsTreeNode, nodes?: readonly FindingsTreeNode[]): Promise<void> {
+    const selected = nodes && nodes.length > 0 ? nodes : node ? [node] : [];
+    const entries = selected.length > 0
+        ? selected.flatMap(n => n.kind === 'group' ? n.findings : [n.entry]).filter(e => hasAgentPrompt(e.diagnostic))
+        : await pickFindingsForPrompt();
+    if (!entries || entries.length === 0) {
+        return;
+    }
+    
+    const uniqueEntries = [...new Set(entries)];
+    const prompt = getCombinedPrompt(uniqueEntries);
+    const action = await vscode.window.showQuickPick(['Copy to Clipboard', 'Open in Editor'], {
+        placeHolder: `Combined agent prompt for ${uniqueEntries.length} finding(s)`
+    });
+    if (action === 'Copy to Clipboard') {
+        await copyAgentPrompt(prompt);
+    } else if (action === 'Open in Editor') {
+        await openAgentPrompt(prompt);
+    }
+}
+
+function listRuleFiles(rulesPath: string): string[] {
+    try {
+        if (!fs.statSync(rulesPath).isDirectory()) {
+            return [rulesPath];
+        }
+        return fs.readdirSync(rulesPath).sort().flatMap(entry => {
+            const entryPath = path.join(rulesPath, entry);
+            return /\.ya?ml$/.test(entry) || fs.statSync(entryPath).isDirectory() ? listRuleFiles(entryPath) : [];
+        });
+    } catch {
+        return [];
+    }
+}
+
+function getRuleIndex(): Map<string, vscode.Location> {
+    if (ruleIndex) {
+        return ruleIndex;
+    }
+    
+    ruleIndex = new Map();
+    for (const rulesPath of new Set(getAllConfigs().flatMap(c => c.rulesPaths))) {
+        for (const ruleFile of listRuleFiles(rulesPath)) {
+            const lines = getFileLines(vscode.Uri.file(ruleFile)) || [];
+            lines.forEach((line, index) => {
+                const match = line.match(/^\s*-?\s*id:\s*["']?([\w.\-]+)["']?\s*$/);
+                if (match && !ruleIndex!.has(match[1])) {
+                    ruleIndex!.set(match[1], new vscode.Location(vscode.Uri.file(ruleFile), new vscode.Position(index, 0)));
+                }
+            });
+        }
+    }
+    return ruleIndex;
+}
+
+function findRuleDefinition(checkId: string): vscode.Location | null {
+    const index = getRuleIndex();
+    return index.get(checkId) || index.get(getShortRuleId(checkId)) || null;
+}
+
+async function openRuleDefinition(checkId: string): Promise<void> {
+    const location = findRuleDefinition(checkId);
+    if (!location) {
+        vscode.window.showWarningMessage(`Rule definition for '${checkId}' not found in the configured rules files.`);
+        return;
+    }
+    await vscode.window.showTextDocument(location.uri, { selection: location.range });
+}
+
+function getFindingReferences(finding: SemgrepFinding): string[] {
+    const metadata = finding.extra.metadata || {};
+    return ['source', 'references', 'shortlink']
+        .flatMap(key => Array.isArray(metadata[key]) ? metadata[key] as unknown[] : [metadata[key]])
+        .filter((value): value is string => typeof value === 'string' && /^https?:\/\//.test(value));
+}
+
+function getRuleDocTarget(finding: SemgrepFinding): vscode.Uri | undefined {
+    const reference = getFindingReferences(finding)[0];
+    if (reference) {
+        return vscode.Uri.parse(reference);
+    }
+    const location = findRuleDefinition(finding.check_id);
+    return location ? location.uri.with({ fragment: `L${location.range.start.line + 1}` }) : undefined;
+}
+
+function goToRuleDefinition(uri?: vscode.Uri, checkId?: string): void {
+    if (uri && checkId) {
+        openRuleDefinition(checkId);
+        return;
+    }
+    
+    const editor = vscode.window.activeTextEditor;
+    const diagnostic = editor && (diagnosticCollection.get(editor.document.uri) || [])
+        .find(d => diagnosticFindings.has(d) && d.range.contains(editor.selection.active));
+    if (!diagnostic) {
+        vscode.window.showInformationMessage('Place the cursor on a semgrep finding to open its rule.');
+        return;
+    }
+    openRuleDefinition(getDiagnosticCode(diagnostic));
+}
+
+function provideFindingHover(document: vscode.TextDocument, position: vscode.Position): vscode.Hover | undefined {
+    const diagnostics = (diagnosticCollection.get(document.uri) || []).filter(d => diagnosticFindings.has(d) && d.range.contains(position));
+    if (diagnostics.length === 0) {
+        return undefined;
+    }
+    
+    const contents = diagnostics.map(diagnostic => renderFindingHover(document, diagnostic, diagnosticFindings.get(diagnostic)!));
+    return new vscode.Hover(contents, diagnostics[0].range);
+}
+
+function renderFindingHover(document: vscode.TextDocument, diagnostic: vscode.Diagnostic, finding: SemgrepFinding): vscode.MarkdownString {
+    const markdown = new vscode.MarkdownString();
+    markdown.isTrusted = { enabledCommands: ['semgrep-offline.goToRuleDefinition'] };
+    const metadata = finding.extra.metadata || {};
+    
+    markdown.appendMarkdown(`**${escapeMarkdown(diagnostic.source || '')}** ${toCodeSpan(getShortRuleId(finding.check_id))} · ${SEVERITY_LABELS[diagnostic.severity]}\n\n`);
+    markdown.appendText(diagnostic.message);
+    markdown.appendMarkdown('\n\n');
+    
+    const cwes = getFindingCwes(finding);
+    if (cwes.length > 0) {
+        const links = cwes.map(cwe => `[${cwe}](https://cwe.mitre.org/data/definitions/${cwe.slice(4)}.html)`);
+        markdown.appendMarkdown(`**CWE:** ${links.join(', ')}  \n`);
+    }
+    for (const key of ['owasp', 'category', 'confidence', 'likelihood', 'impact']) {
+        const value = metadata[key];
+        if (value !== undefined) {
+            markdown.appendMarkdown(`**${key === 'owasp' ? 'OWASP' : key[0].toUpperCase() + key.slice(1)}:** `);
+            markdown.appendText(Array.isArray(value) ? value.join(', ') : String(value));
+            markdown.appendMarkdown('  \n');
+        }
+    }
+    
+    const snippet = document.getText(new vscode.Range(
+        diagnostic.range.start.line, 0,
+        Math.min(diagnostic.range.end.line, diagnostic.range.start.line + 9), Number.MAX_SAFE_INTEGER
+    ));
+    markdown.appendMarkdown('\n**Matched code:**\n');
+    markdown.appendCodeblock(snippet, document.languageId);
+    
+    const fix = semgrepFixes.get(diagnostic);
+    const remediation = metadata.remediation ?? metadata.fix_guidance;
+    if (remediation !== undefined) {
+        markdown.appendMarkdown('**Remediation:** ');
+        markdown.appendText(String(remediation));
+        markdown.appendMarkdown('\n\n');
+    }
+    if (fix?.fix !== undefined) {
+        markdown.appendMarkdown('**Suggested fix** (available as a quick fix):\n');
+        markdown.appendCodeblock(fix.fix, document.languageId);
+    } else if (fix?.fixRegex) {
+        markdown.appendMarkdown('A quick fix is available for this finding.\n\n');
+    }
+    
+    const references = getFindingReferences(finding);
+    if (references.length > 0) {
+        markdown.appendMarkdown(`**References:** ${references.map(r => `[${escapeMarkdown(r)}](${vscode.Uri.parse(r).toString()})`).join(', ')}\n\n`);
+    }
+    
+    if (diagnostic.source === 'semgrep') {
+        const args = encodeURIComponent(JSON.stringify([document.uri, finding.check_id]));
+        markdown.appendMarkdown(`[Go to Rule Definition](command:semgrep-offline.goToRuleDefinition?${args})`);
+    }
+    return markdown;
+}
+
+function escapeMarkdown(text: string): string {
+    return text.replace(/[\\`*_{}[\]()#+\-.!|<>]/g, '\\$&');
+}
+
+function toCodeSpan(text: string): string {
+    const longestRun = Math.max(0, ...(text.match(/`+/g) || []).map(run => run.length));
+    const fence = '`'.repeat(longestRun + 1);
+    return `${fence} ${text.replace(/\s+/g, ' ')} ${fence}`;
+}
+
+function createDiagnostic(finding: SemgrepFinding, source: string = 'semgrep'): vscode.Diagnostic {
+    const startLine = Math.max(0, finding.start.line - 1);
+    const startCol = Math.max(0, finding.start.col - 1);
+    const endLine = Math.max(0, finding.end.line - 1);
+    const endCol = Math.max(0, finding.end.col - 1);
+    
+    const range = new vscode.Range(startLine, startCol, endLine, endCol);
+    
+    const severity = mapSeverity(finding.extra.severity);
+    
+    const diagnostic = new vscode.Diagnostic(
+        range,
+        `${finding.extra.message}`,
+        severity
+    );
+    
+    diagnostic.source = source;
+    const target = getRuleDocTarget(finding);
+    diagnostic.code = target ? { value: finding.check_id, target } : finding.check_id;
+    
+    diagnosticFindings.set(diagnostic, finding);
+    if (finding.extra.fix !== undefined || finding.extra.fix_regex) {
+        semgrepFixes.set(diagnostic, { checkId: finding.check_id, fix: finding.extra.fix, fixRegex: finding.extra.fix_regex });
+    }
+    
+    return diagnostic;
+}
+
+function mapSeverity(severity: string): vscode.DiagnosticSeverity {
+    switch (severity.toUpperCase()) {
+        case 'ERROR':
+            return vscode.DiagnosticSeverity.Error;
+        case 'WARNING':
+            return vscode.DiagnosticSeverity.Warning;
+        case 'INFO':
+            return vscode.DiagnosticSeverity.Information;
+        default:
+            return vscode.DiagnosticSeverity.Warning;
+    }
+}
+
+function getSolidThresholds(scope: vscode.Uri): SolidThresholds {
+    const config = getSettings(scope);
+    return resolveSolidThresholds(key => config.get<number>(key));
+}
+
+async function analyzeSolidWorkspace(): Promise<void> {
+    const folders = vscode.workspace.workspaceFolders;
+    if (!folders || folders.length === 0) {
+        vscode.window.showWarningMessage('No workspace folder open');
+        return;
+    }
+    
+    const targetFolders = await pickWorkspaceFolders(folders, 'Select the workspace folder to analyze');
+    if (!targetFolders) {
+        return;
+    }
+    const enabledFolders = targetFolders.filter(f => SOLID_CHECKS.some(c => getSettings(f.uri).get<boolean>(c.setting)));
+    if (enabledFolders.length === 0) {
+        const action = await vscode.window.showWarningMessage(
+            'SOLID: No principle checks are enabled. Enable semgrepOffline.enableSRP, enableOCP, enableDIP or enableISP.',
+            'Open Settings'
+        );
+        if (action === 'Open Settings') {
+            vscode.commands.executeCommand('workbench.action.openSettings', 'semgrepOffline.enable');
+        }
+        return;
+    }
+    
+    const tokenSource = new vscode.CancellationTokenSource();
+    activeScanSources.add(tokenSource);
+    let progressListener: vscode.Disposable | undefined;
+    
+    try {
+        const summary = await vscode.window.withProgress(
+            {
+                location: vscode.ProgressLocation.Notification,
+                title: 'SOLID: Analyzing workspace',
+                cancellable: true
+            },
+            async (progress, progressToken) => {
+                progressListener = progressToken.onCancellationRequested(() => tokenSource.cancel());
+                
+                progress.report({ message: 'Collecting files...' });
+                const folderTargets: { folder: vscode.WorkspaceFolder; targets: vscode.Uri[] }[] = [];
+                for (const folder of enabledFolders) {
+                    const targets = await findWorkspaceTargets(folder, tokenSource.token);
+                    folderTargets.push({ folder, targets: targets.filter(uri => getSolidLanguageId(uri.fsPath)) });
+                }
+                
+                const totalTargets = folderTargets.reduce((sum, f) => sum + f.targets.length, 0);
+                const result: SolidWorkspaceSummary = { files: 0, violations: 0, filesWithViolations: 0, scores: new Map() };
+                
+                for (const { folder, targets } of folderTargets) {
+                    const checks = SOLID_CHECKS.filter(c => getSettings(folder.uri).get<boolean>(c.setting));
+                    const thresholds = getSolidThresholds(folder.uri);
+                    const maxFileSize = getConfig(folder.uri).maxFileSize;
+                    
+                    for (const uri of targets) {
+                        if (tokenSource.token.isCancellationRequested) {
+                            throw new vscode.CancellationError();
+                        }
+                        
+                        const source = await readSolidSource(uri, maxFileSize);
+                        if (source) {
+                            let fileViolations = 0;
+                            for (const check of checks) {
+                                const analysis = check.analyze(source.text, source.languageId, uri.fsPath, thresholds);
+                                setSolidDiagnostics(uri, check.source, analysis.findings);
+                                const scores = analysis.scores.map(score => ({ ...score, uri }));
+                                result.scores.set(check.principle, [...(result.scores.get(check.principle) || []), ...scores]);
+                                fileViolations += analysis.findings.length;
+                            }
+                            result.violations += fileViolations;
+                            result.filesWithViolations += fileViolations > 0 ? 1 : 0;
+                        }
+                        
+                        result.files++;
+                        progress.report({
+                            message: `${result.files}/${totalTargets} files`,
+                            increment: (1 / totalTargets) * 100
+                        });
+                    }
+                }
+                
+                return result;
+            }
+        );
+        
+        outputChannel.appendLine(`SOLID workspace analysis complete: ${summary.violations} violation(s) in ${summary.filesWithViolations} of ${summary.files} file(s)`);
+        const document = await vscode.workspace.openTextDocument({ language: 'markdown', content: getSolidWorkspaceReport(summary) });
+        await vscode.window.showTextDocument(document, { viewColumn: vscode.ViewColumn.Beside, preview: true });
+    } catch (error) {
+        if (error instanceof vscode.CancellationError) {
+            outputChannel.appendLine('SOLID workspace analysis cancelled');
+            return;
+        }
+        outputChannel.appendLine(`Error analyzing workspace: ${error}`);
+        vscode.window.showErrorMessage(`SOLID workspace analysis failed: ${error}`);
+    } finally {
+        progressListener?.dispose();
+        activeScanSources.delete(tokenSource);
+        tokenSource.dispose();
+    }
+}
+
+async function readSolidSource(uri: vscode.Uri, maxFileSize: number): Promise<{ text: string; languageId: string } | null> {
+    const document = vscode.workspace.textDocuments.find(d => d.uri.toString() === uri.toString());
+    if (document) {
+        return { text: document.getText(), languageId: document.languageId };
+    }
+    
+    const languageId = getSolidLanguageId(uri.fsPath);
+    if (!languageId) {
+        return null;
+    }
+    try {
+        const stat = await fs.promises.stat(uri.fsPath);
+        if (maxFileSize > 0 && stat.size > maxFileSize) {
+            return null;
+        }
+        const text = await fs.promises.readFile(uri.fsPath, 'utf8');
+        return { text: text.replace(/\r\n/g, '\n'), languageId };
+    } catch {
+        return null;
+    }
+}
+
+function getSolidWorkspaceReport(summary: SolidWorkspaceSummary): string {
+    let report = `# SOLID Workspace Analysis\n\n`;
+    report += `${summary.violations} violation(s) in ${summary.filesWithViolations} of ${summary.files} analyzed file(s).\n`;
+    
+    for (const check of SOLID_CHECKS.filter(c => summary.scores.has(c.principle))) {
+        const worst = summary.scores.get(check.principle)!
+            .sort((a, b) => b.score - a.score)
+            .slice(0, SOLID_REPORT_SIZE);
+        report += `\n## ${check.principle}\n\n`;
+        if (worst.length === 0) {
+            report += `No ${check.principle} issues found.\n`;
+            continue;
+        }
+        report += `| Name | Metric | Location | Above threshold |\n|------|--------|----------|-----------------|\n`;
+        for (const score of worst) {
+            report += `| \`${score.name}\` | ${score.label} | ${vscode.workspace.asRelativePath(score.uri)}:${score.line + 1} | ${score.violation ? 'yes' : 'no'} |\n`;
+        }
+    }
+    
+    return report;
+}
+
+function setSolidDiagnostics(uri: vscode.Uri, source: string, findings: SolidFinding[]): void {
+    const existingDiagnostics = getDiagnostics(uri);
+    if (findings.length === 0 && !existingDiagnostics.some(d => d.source === source)) {
+        return;
+    }
+    
+    const diagnostics = findings.map(finding => {
+        const diagnostic = new vscode.Diagnostic(
+            new vscode.Range(finding.line, 0, finding.line, 100),
+            finding.message,
+            vscode.DiagnosticSeverity.Warning
+        );
+        diagnostic.source = finding.source;
+        diagnostic.code = finding.code;
+        diagnosticMetrics.set(diagnostic, finding.metrics);
+        diagnosticPrompts.set(diagnostic, finding.prompt);
+        return diagnostic;
+    });
+    
+    const otherDiagnostics = existingDiagnostics.filter(d => d.source !== source);
+    setDiagnostics(uri, [...otherDiagnostics, ...diagnostics]);
+}
+
+async function checkSingleResponsibility(document: vscode.TextDocument, silent: boolean = false): Promise<void> {
+    const threshold = getSolidThresholds(document.uri).srpLcom4Threshold;
+    const result = analyzeSingleResponsibility(document.getText(), document.languageId, document.uri.fsPath, threshold);
+    
+    if (result.classCount === 0) {
+        setSolidMetrics(document.uri, 'srp', []);
+        if (!silent) {
+            vscode.window.showInformationMessage('No classes found in the current file.');
+        }
+        return;
+    }
+    
+    setSolidDiagnostics(document.uri, 'solid-srp', result.findings);
+    setSolidMetrics(document.uri, 'srp', result.metrics);
+    
+    const violatingClasses = result.violations;
+    
+    if (!silent) {
+        if (violatingClasses.length > 0) {
+            const prompt = generateSRPPrompt(violatingClasses, document.uri.fsPath);
+            outputChannel.appendLine('\n=== SRP Analysis Result ===');
+            outputChannel.appendLine(prompt);
+            outputChannel.show();
+            
+            const action = await vscode.window.showWarningMessage(
+                `Found ${violatingClasses.length} class(es) potentially violating Single Responsibility Principle.`,
+                'View Details',
+                'Copy Prompt'
+            );
+            
+            if (action === 'Copy Prompt') {
+                await vscode.env.clipboard.writeText(prompt);
+                vscode.window.showInformationMessage('SRP analysis prompt copied to clipboard.');
+            } else if (action === 'View Details') {
+                outputChannel.show();
+            }
+        } else {
+            vscode.window.showInformationMessage('All classes pass the Single Responsibility Principle check.');
+        }
+    } else if (violatingClasses.length > 0) {
+        outputChannel.appendLine(`SRP: Found ${violatingClasses.length} violation(s) in ${path.basename(document.uri.fsPath)}`);
+    }
+}
+
+async function checkOpenClosed(document: vscode.TextDocument, silent: boolean = false): Promise<void> {
+    const threshold = getSolidThresholds(document.uri).ocpScoreThreshold;
+    const result = analyzeOpenClosed(document.getText(), document.languageId, document.uri.fsPath, threshold);
+    
+    if (result.classCount === 0) {
+        setSolidMetrics(document.uri, 'ocp', []);
+        if (!silent) {
+            vscode.window.showInformationMessage('No classes found in the current file.');
+        }
+        return;
+    }
+    
+    setSolidDiagnostics(document.uri, 'solid-ocp', result.findings);
+    setSolidMetrics(document.uri, 'ocp', result.metrics);
+    
+    const violatingMethods = result.violations;
+    
+    if (!silent) {
+        if (violatingMethods.length > 0) {
+            const prompt = generateOCPPrompt(violatingMethods, document.uri.fsPath);
+            outputChannel.appendLine('\n=== OCP Analysis Result ===');
+            outputChannel.appendLine(prompt);
+            outputChannel.show();
+            
+            const action = await vscode.window.showWarningMessage(
+                `Found ${violatingMethods.length} method(s) potentially violating Open/Closed Principle.`,
+                'View Details',
+                'Copy Prompt'
+            );
+            
+            if (action === 'Copy Prompt') {
+                await vscode.env.clipboard.writeText(prompt);
+                vscode.window.showInformationMessage('OCP analysis prompt copied to clipboard.');
+            } else if (action === 'View Details') {
+                outputChannel.show();
+            }
+        } else {
+            vscode.window.showInformationMessage('All methods pass the Open/Closed Principle check.');
+        }
+    } else if (violatingMethods.length > 0) {
+        outputChannel.appendLine(`OCP: Found ${violatingMethods.length} violation(s) in ${path.basename(document.uri.fsPath)}`);
+    }
+}
+
+async function checkDependencyInversion(document: vscode.TextDocument, silent: boolean = false): Promise<void> {
+    const threshold = getSolidThresholds(document.uri).dipScoreThreshold;
+    const result = analyzeDependencyInversion(document.getText(), document.languageId, document.uri.fsPath, threshold);
+    
+    if (result.classCount === 0) {
+        setSolidMetrics(document.uri, 'dip', []);
+        if (!silent) {
+            vscode.window.showInformationMessage('No classes found in the current file.');
+        }
+        return;
+    }
+    
+    setSolidDiagnostics(document.uri, 'solid-dip', result.findings);
+    setSolidMetrics(document.uri, 'dip', result.metrics);
+    
+    const violatingClasses = result.violations;
+    
+    if (!silent) {
+        if (violatingClasses.length > 0) {
+            const prompt = generateDIPPrompt(violatingClasses, document.uri.fsPath);
+            outputChannel.appendLine('\n=== DIP Analysis Result ===');
+            outputChannel.appendLine(prompt);
+            outputChannel.show();
+            
+            const action = await vscode.window.showWarningMessage(
+                `Found ${violatingClasses.length} class(es) potentially violating Dependency Inversion Principle.`,
+                'View Details',
+                'Copy Prompt'
+            );
+            
+            if (action === 'Copy Prompt') {
+                await vscode.env.clipboard.writeText(prompt);
+                vscode.window.showInformationMessage('DIP analysis prompt copied to clipboard.');
+            } else if (action === 'View Details') {
+                outputChannel.show();
+            }
+        } else {
+            vscode.window.showInformationMessage('All classes pass the Dependency Inversion Principle check.');
+        }
+    } else if (violatingClasses.length > 0) {
+        outputChannel.appendLine(`DIP: Found ${violatingClasses.length} violation(s) in ${path.basename(document.uri.fsPath)}`);
+    }
+}
+
+async function checkInterfaceSegregation(document: vscode.TextDocument, silent: boolean = false): Promise<void> {
+    const thresholds = getSolidThresholds(document.uri);
+    const result = analyzeInterfaceSegregation(
+        document.getText(), document.languageId, document.uri.fsPath, thresholds.ispFatInterfaceThreshold, thresholds.ispSirThreshold
+    );
+    const results = result.violations;
+    
+    setSolidDiagnostics(document.uri, 'solid-isp', result.findings);
+    setSolidMetrics(document.uri, 'isp', result.metrics);
+    
+    if (!silent) {
+        if (results.length > 0) {
+            const prompt = generateISPPrompt(results, document.uri.fsPath);
+            outputChannel.appendLine('\n=== ISP Analysis Result ===');
+            outputChannel.appendLine(prompt);
+            outputChannel.show();
+            
+            const action = await vscode.window.showWarningMessage(
+                `Found ${results.length} potential Interface Segregation Principle violation(s).`,
+                'View Details',
+                'Copy Prompt'
+            );
+            
+            if (action === 'Copy Prompt') {
+                await vscode.env.clipboard.writeText(prompt);
+                vscode.window.showInformationMessage('ISP analysis prompt copied to clipboard.');
+            } else if (action === 'View Details') {
+                outputChannel.show();
+            }
+        } else {
+            vscode.window.showInformationMessage('All classes pass the Interface Segregation Principle check.');
+        }
+    } else if (results.length > 0) {
+        outputChannel.appendLine(`ISP: Found ${results.length} violation(s) in ${path.basename(document.uri.fsPath)}`);
+    }
+}
+
+export function deactivate() {
+    if (diagnosticCollection) {
+        diagnosticCollection.dispose();
+    }
+    if (outputChannel) {
         outputChannel.dispose();
     }
-    if (semgrepProcess) {
-        semgrepProcess.kill();
+    for (const tokenSource of activeScanSources) {
+        tokenSource.cancel();
+    }
+    for (const proc of scanProcesses) {
+        proc.kill();
     }
+    scanProcesses.clear();
+    persistScanCache();
     debounceTimers.forEach(timer => clearTimeout(timer));
+    return stopAllSemgrepServers();
 }
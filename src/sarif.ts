@@ -0,0 +1,41 @@
+export interface SarifLocation {
+    physicalLocation?: {
+        artifactLocation?: { uri?: string; uriBaseId?: string };
+        region?: { startLine?: number; startColumn?: number; endLine?: number; endColumn?: number; snippet?: { text?: string } };
+    };
+}
+
+export interface SarifRule {
+    id: string;
+    name?: string;
+    shortDescription?: { text: string };
+    fullDescription?: { text: string };
+    helpUri?: string;
+    defaultConfiguration?: { level: string };
+    properties?: Record<string, unknown>;
+}
+
+export interface SarifResult {
+    ruleId?: string;
+    ruleIndex?: number;
+    level?: string;
+    message: { text?: string };
+    locations?: SarifLocation[];
+    partialFingerprints?: Record<string, string>;
+    properties?: Record<string, unknown>;
+}
+
+export interface SarifRun {
+    tool: { driver: { name: string; fullName?: string; version?: string; informationUri?: string; rules?: SarifRule[] } };
+    originalUriBaseIds?: Record<string, { uri: string }>;
+    artifacts?: { location?: { uri?: string; uriBaseId?: string }; hashes?: Record<string, string> }[];
+    results?: SarifResult[];
+}
+
+export interface SarifLog {
+    $schema?: string;
+    version: string;
+    runs: SarifRun[];
+}
+
+export const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
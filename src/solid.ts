@@ -0,0 +1,1783 @@
+import * as path from 'path';
+
+export interface ClassInfo {
+    name: string;
+    startLine: number;
+    endLine: number;
+    methods: MethodInfo[];
+    instanceVariables: Set<string>;
+}
+
+export interface MethodInfo {
+    name: string;
+    startLine: number;
+    endLine: number;
+    usedVariables: Set<string>;
+    calledMethods: Set<string>;
+    callsSuper: boolean;
+    isStub: boolean;
+    stubType: 'none' | 'pass' | 'not_implemented';
+}
+
+export interface LCOM4Result {
+    className: string;
+    startLine: number;
+    lcom4Value: number;
+    connectedComponents: string[][];
+    suggestion: string;
+    excludedMethods: string[];
+    excludeReasons: Record<string, string>;
+}
+
+export interface OCPViolation {
+    line: number;
+    type: 'instanceof' | 'type_equality' | 'type_field' | 'typeof';
+    code: string;
+}
+
+export interface OCPResult {
+    className: string;
+    methodName: string;
+    startLine: number;
+    classStartLine: number;
+    tcd: number;
+    tfsc: number;
+    ocpScore: number;
+    violations: OCPViolation[];
+    suggestion: string;
+}
+
+export interface DIPViolation {
+    line: number;
+    type: 'constructor_instantiation' | 'method_instantiation' | 'no_injection' | 'concrete_parameter';
+    code: string;
+    className: string;
+}
+
+export interface DIPResult {
+    className: string;
+    startLine: number;
+    constructorInstantiations: number;
+    methodInstantiations: number;
+    injectedDependencies: number;
+    totalDependencies: number;
+    dii: number;
+    dipScore: number;
+    violations: DIPViolation[];
+    suggestion: string;
+}
+
+export interface ISPViolation {
+    line: number;
+    type: 'fat_interface' | 'empty_implementation' | 'not_implemented_error';
+    methodName: string;
+    code: string;
+}
+
+export interface ISPResult {
+    className: string;
+    startLine: number;
+    isInterface: boolean;
+    abstractMethodCount: number;
+    emptyImplementations: number;
+    notImplementedErrors: number;
+    ifs: number;
+    sir: number;
+    ispScore: number;
+    violations: ISPViolation[];
+    suggestion: string;
+}
+
+export interface SolidFinding {
+    source: string;
+    code: string;
+    line: number;
+    message: string;
+    metrics: Record<string, number>;
+    prompt: string;
+}
+
+export interface SolidCheckResult<T> {
+    classCount: number;
+    metrics: T[];
+    violations: T[];
+    findings: SolidFinding[];
+}
+
+export interface SolidScore {
+    name: string;
+    line: number;
+    score: number;
+    label: string;
+    violation: boolean;
+}
+
+export interface SolidAnalysis {
+    classCount: number;
+    findings: SolidFinding[];
+    scores: SolidScore[];
+}
+
+export interface SolidPrinciple {
+    principle: string;
+    source: string;
+    setting: string;
+    analyze: (text: string, languageId: string, filePath: string, thresholds: SolidThresholds) => SolidAnalysis;
+}
+
+export interface SolidThresholds {
+    srpLcom4Threshold: number;
+    ocpScoreThreshold: number;
+    dipScoreThreshold: number;
+    ispFatInterfaceThreshold: number;
+    ispSirThreshold: number;
+}
+
+export const DEFAULT_SOLID_THRESHOLDS: SolidThresholds = {
+    srpLcom4Threshold: 1,
+    ocpScoreThreshold: 4,
+    dipScoreThreshold: 3,
+    ispFatInterfaceThreshold: 5,
+    ispSirThreshold: 0.3
+};
+
+export const SOLID_LANGUAGE_EXTENSIONS: Record<string, string> = {
+    python: '.py',
+    typescript: '.ts',
+    typescriptreact: '.tsx',
+    javascript: '.js',
+    javascriptreact: '.jsx'
+};
+
+export const SOLID_PRINCIPLES: SolidPrinciple[] = [
+    {
+        principle: 'SRP',
+        source: 'solid-srp',
+        setting: 'enableSRP',
+        analyze: (text, languageId, filePath, t) => {
+            const result = analyzeSingleResponsibility(text, languageId, filePath, t.srpLcom4Threshold);
+            return {
+                classCount: result.classCount,
+                findings: result.findings,
+                scores: result.metrics.filter(r => r.lcom4Value > 1).map(r => ({
+                    name: r.className, line: r.startLine, score: r.lcom4Value,
+                    label: `LCOM4 ${r.lcom4Value}`, violation: result.violations.includes(r)
+                }))
+            };
+        }
+    },
+    {
+        principle: 'OCP',
+        source: 'solid-ocp',
+        setting: 'enableOCP',
+        analyze: (text, languageId, filePath, t) => {
+            const result = analyzeOpenClosed(text, languageId, filePath, t.ocpScoreThreshold);
+            return {
+                classCount: result.classCount,
+                findings: result.findings,
+                scores: result.metrics.filter(r => r.ocpScore > 0).map(r => ({
+                    name: `${r.className}.${r.methodName}`, line: r.startLine, score: r.ocpScore,
+                    label: `OCP score ${r.ocpScore.toFixed(1)}`, violation: result.violations.includes(r)
+                }))
+            };
+        }
+    },
+    {
+        principle: 'DIP',
+        source: 'solid-dip',
+        setting: 'enableDIP',
+        analyze: (text, languageId, filePath, t) => {
+            const result = analyzeDependencyInversion(text, languageId, filePath, t.dipScoreThreshold);
+            return {
+                classCount: result.classCount,
+                findings: result.findings,
+                scores: result.metrics.filter(r => r.dipScore > 0).map(r => ({
+                    name: r.className, line: r.startLine, score: r.dipScore,
+                    label: `DIP score ${r.dipScore.toFixed(1)}, DII ${(r.dii * 100).toFixed(0)}%`, violation: result.violations.includes(r)
+                }))
+            };
+        }
+    },
+    {
+        principle: 'ISP',
+        source: 'solid-isp',
+        setting: 'enableISP',
+        analyze: (text, languageId, filePath, t) => {
+            const result = analyzeInterfaceSegregation(text, languageId, filePath, t.ispFatInterfaceThreshold, t.ispSirThreshold);
+            return {
+                classCount: result.classCount,
+                findings: result.findings,
+                scores: result.metrics.filter(r => r.violations.length > 0).map(r => ({
+                    name: r.className, line: r.startLine, score: r.ispScore,
+                    label: r.isInterface ? `IFS ${r.ifs}` : `SIR ${(r.sir * 100).toFixed(0)}%`, violation: result.violations.includes(r)
+                }))
+            };
+        }
+    }
+];
+
+export const SOLID_SUPPRESSION_PATTERN = /(?:#|\/\/)\s*solid:\s*ignore\[([A-Za-z,\s]+)\](?:\s+(.*))?/;
+
+export const SOLID_RULE_DESCRIPTIONS: Record<string, string> = {
+    'LCOM4': 'Class methods form disconnected groups that do not share state (LCOM4 above threshold)',
+    'OCP': 'Method branches on types instead of using polymorphism (OCP score above threshold)',
+    'DIP': 'Class instantiates its concrete dependencies instead of receiving them (DIP score above threshold)',
+    'ISP-FAT': 'Interface declares too many abstract methods (IFS above threshold)',
+    'ISP-STUB': 'Class implements interface methods as empty or NotImplementedError stubs (SIR above threshold)'
+};
+
+export function resolveSolidThresholds(get: (key: keyof SolidThresholds) => unknown): SolidThresholds {
+    const thresholds = { ...DEFAULT_SOLID_THRESHOLDS };
+    for (const key of Object.keys(thresholds) as (keyof SolidThresholds)[]) {
+        const value = get(key);
+        if (typeof value === 'number' && Number.isFinite(value) && value >= 0) {
+            thresholds[key] = value;
+        }
+    }
+    return thresholds;
+}
+
+export function getSolidLanguageId(filePath: string): string | undefined {
+    return Object.keys(SOLID_LANGUAGE_EXTENSIONS).find(l => filePath.endsWith(SOLID_LANGUAGE_EXTENSIONS[l]));
+}
+
+export function isSolidSuppressed(lines: string[], line: number, principle: string): boolean {
+    return [line, line - 1].some(i => {
+        if (i < 0 || i >= lines.length) {
+            return false;
+        }
+        if (i !== line && !/^\s*(#|\/\/)/.test(lines[i])) {
+            return false;
+        }
+        const match = lines[i].match(SOLID_SUPPRESSION_PATTERN);
+        return !!match && !!match[2]?.trim() && match[1].split(',').some(p => p.trim().toUpperCase() === principle);
+    });
+}
+
+export function analyzeSingleResponsibility(text: string, languageId: string, filePath: string, threshold: number): SolidCheckResult<LCOM4Result> {
+    const classes = parseClasses(text, languageId);
+    const lines = text.split('\n');
+    const metrics: LCOM4Result[] = [];
+    const findings: SolidFinding[] = [];
+    
+    for (const classInfo of classes) {
+        if (isSolidSuppressed(lines, classInfo.startLine, 'SRP')) {
+            continue;
+        }
+        
+        const lcom4Result = calculateLCOM4(classInfo);
+        metrics.push(lcom4Result);
+        
+        if (lcom4Result.lcom4Value > threshold) {
+            const excludedInfo = lcom4Result.excludedMethods.length > 0 
+                ? ` (${lcom4Result.excludedMethods.length} override/stub methods excluded)` 
+                : '';
+            
+            findings.push({
+                source: 'solid-srp',
+                code: 'LCOM4',
+                line: classInfo.startLine,
+                message: `SRP Violation: Class '${classInfo.name}' has LCOM4=${lcom4Result.lcom4Value}${excludedInfo}. ${lcom4Result.suggestion}`,
+                metrics: { lcom4: lcom4Result.lcom4Value, excludedMethods: lcom4Result.excludedMethods.length },
+                prompt: generateSRPPrompt([lcom4Result], filePath)
+            });
+        }
+    }
+    
+    return { classCount: classes.length, metrics, violations: metrics.filter(r => r.lcom4Value > threshold), findings };
+}
+
+export function analyzeOpenClosed(text: string, languageId: string, filePath: string, threshold: number): SolidCheckResult<OCPResult> {
+    const lines = text.split('\n');
+    const classes = parseClasses(text, languageId);
+    const metrics: OCPResult[] = [];
+    const violations: OCPResult[] = [];
+    const findings: SolidFinding[] = [];
+    
+    for (const classInfo of classes) {
+        const classSuppressed = isSolidSuppressed(lines, classInfo.startLine, 'OCP');
+        for (const method of classInfo.methods) {
+            if (classSuppressed || isSolidSuppressed(lines, method.startLine, 'OCP')) {
+                continue;
+            }
+            
+            const methodLines = lines.slice(method.startLine, method.endLine + 1);
+            const methodText = methodLines.join('\n');
+            
+            const methodViolations = detectOCPViolations(methodText, method.startLine, languageId);
+            const tcd = calculateTCD(methodViolations, methodLines.length);
+            const tfsc = calculateTFSC(methodViolations);
+            const ocpScore = calculateOCPScore(methodViolations);
+            
+            const result: OCPResult = {
+                className: classInfo.name,
+                methodName: method.name,
+                startLine: method.startLine,
+                classStartLine: classInfo.startLine,
+                tcd,
+                tfsc,
+                ocpScore,
+                violations: methodViolations,
+                suggestion: methodViolations.length > 0 ? generateOCPSuggestion(methodViolations, ocpScore) : ''
+            };
+            metrics.push(result);
+            
+            if (methodViolations.length > 0 && ocpScore > threshold) {
+                violations.push(result);
+                findings.push({
+                    source: 'solid-ocp',
+                    code: 'OCP',
+                    line: method.startLine,
+                    message: `OCP Violation: Method '${method.name}' in class '${classInfo.name}' has OCP Score=${ocpScore.toFixed(1)}. ${result.suggestion}`,
+                    metrics: { ocpScore, tcd, tfsc },
+                    prompt: generateOCPPrompt([result], filePath)
+                });
+            }
+        }
+    }
+    
+    return { classCount: classes.length, metrics, violations, findings };
+}
+
+export function analyzeDependencyInversion(text: string, languageId: string, filePath: string, threshold: number): SolidCheckResult<DIPResult> {
+    const classes = parseClassesWithConstructors(text, languageId);
+    const lines = text.split('\n');
+    const metrics: DIPResult[] = [];
+    const findings: SolidFinding[] = [];
+    
+    for (const classInfo of classes) {
+        if (isSolidSuppressed(lines, classInfo.startLine, 'DIP')) {
+            continue;
+        }
+        
+        const dipResult = analyzeDIP(classInfo, text, languageId);
+        metrics.push(dipResult);
+        
+        if (dipResult.dipScore > 0 && dipResult.dipScore >= threshold) {
+            findings.push({
+                source: 'solid-dip',
+                code: 'DIP',
+                line: classInfo.startLine,
+                message: `DIP Violation: Class '${classInfo.name}' has DIP Score=${dipResult.dipScore.toFixed(1)}, DII=${(dipResult.dii * 100).toFixed(0)}%. ${dipResult.suggestion}`,
+                metrics: { dipScore: dipResult.dipScore, dii: dipResult.dii, constructorInstantiations: dipResult.constructorInstantiations, methodInstantiations: dipResult.methodInstantiations },
+                prompt: generateDIPPrompt([dipResult], filePath)
+            });
+        }
+    }
+    
+    return { classCount: classes.length, metrics, violations: metrics.filter(r => r.dipScore > 0 && r.dipScore >= threshold), findings };
+}
+
+export function analyzeInterfaceSegregation(
+    text: string,
+    languageId: string,
+    filePath: string,
+    fatInterfaceThreshold: number,
+    sirThreshold: number
+): SolidCheckResult<ISPResult> {
+    const lines = text.split('\n');
+    const metrics: ISPResult[] = [];
+    const violations: ISPResult[] = [];
+    const findings: SolidFinding[] = [];
+    
+    const interfaces = parseInterfaces(text, languageId);
+    for (const iface of interfaces) {
+        if (isSolidSuppressed(lines, iface.startLine, 'ISP')) {
+            continue;
+        }
+        
+        const isFat = iface.abstractMethodCount > fatInterfaceThreshold;
+        const result: ISPResult = {
+            className: iface.name,
+            startLine: iface.startLine,
+            isInterface: true,
+            abstractMethodCount: iface.abstractMethodCount,
+            emptyImplementations: 0,
+            notImplementedErrors: 0,
+            ifs: iface.abstractMethodCount,
+            sir: 0,
+            ispScore: iface.abstractMethodCount,
+            violations: isFat ? [{
+                line: iface.startLine,
+                type: 'fat_interface',
+                methodName: '',
+                code: `Interface has ${iface.abstractMethodCount} abstract methods`
+            }] : [],
+            suggestion: isFat ? `Consider splitting into ${Math.ceil(iface.abstractMethodCount / 3)} smaller interfaces with ~3 methods each.` : ''
+        };
+        metrics.push(result);
+        
+        if (isFat) {
+            violations.push(result);
+            findings.push({
+                source: 'solid-isp',
+                code: 'ISP-FAT',
+                line: iface.startLine,
+                message: `ISP Violation: Interface '${iface.name}' has ${iface.abstractMethodCount} abstract methods (fat interface). ${result.suggestion}`,
+                metrics: { ifs: result.ifs, ispScore: result.ispScore },
+                prompt: generateISPPrompt([result], filePath)
+            });
+        }
+    }
+    
+    const implementations = parseImplementations(text, languageId);
+    for (const impl of implementations) {
+        if (isSolidSuppressed(lines, impl.startLine, 'ISP')) {
+            continue;
+        }
+        
+        const totalMethods = impl.totalMethods;
+        const stubMethods = impl.emptyMethods.length + impl.notImplementedMethods.length;
+        const sir = totalMethods > 0 ? stubMethods / totalMethods : 0;
+        const implViolations: ISPViolation[] = [];
+        
+        for (const m of impl.emptyMethods) {
+            implViolations.push({
+                line: m.line,
+                type: 'empty_implementation',
+                methodName: m.name,
+                code: m.code
+            });
+        }
+        
+        for (const m of impl.notImplementedMethods) {
+            implViolations.push({
+                line: m.line,
+                type: 'not_implemented_error',
+                methodName: m.name,
+                code: m.code
+            });
+        }
+        
+        const isFlagged = stubMethods > 0 && (sir >= sirThreshold || stubMethods >= 2);
+        const result: ISPResult = {
+            className: impl.name,
+            startLine: impl.startLine,
+            isInterface: false,
+            abstractMethodCount: 0,
+            emptyImplementations: impl.emptyMethods.length,
+            notImplementedErrors: impl.notImplementedMethods.length,
+            ifs: 0,
+            sir,
+            ispScore: stubMethods * 1.5,
+            violations: implViolations,
+            suggestion: isFlagged ? generateISPSuggestion(impl.emptyMethods.length, impl.notImplementedMethods.length, sir) : ''
+        };
+        metrics.push(result);
+        
+        if (isFlagged) {
+            violations.push(result);
+            findings.push({
+                source: 'solid-isp',
+                code: 'ISP-STUB',
+                line: impl.startLine,
+                message: `ISP Violation: Class '${impl.name}' has ${stubMethods} stub method(s) (SIR=${(sir * 100).toFixed(0)}%). ${result.suggestion}`,
+                metrics: { sir, stubMethods, ispScore: result.ispScore },
+                prompt: generateISPPrompt([result], filePath)
+            });
+        }
+    }
+    
+    return { classCount: interfaces.length + implementations.length, metrics, violations, findings };
+}
+
+export function parseClasses(text: string, languageId: string): ClassInfo[] {
+    const classes: ClassInfo[] = [];
+    const lines = text.split('\n');
+    
+    if (languageId === 'python') {
+        return parsePythonClasses(lines);
+    } else if (languageId === 'typescript' || languageId === 'javascript' || languageId === 'typescriptreact' || languageId === 'javascriptreact') {
+        return parseTypeScriptClasses(lines);
+    }
+    
+    return classes;
+}
+
+function parsePythonClasses(lines: string[]): ClassInfo[] {
+    const classes: ClassInfo[] = [];
+    let currentClass: ClassInfo | null = null;
+    let currentMethod: MethodInfo | null = null;
+    let classIndent = 0;
+    let methodIndent = 0;
+    let methodBodyLines: string[] = [];
+    
+    function finalizeMethod(method: MethodInfo, bodyLines: string[]): void {
+        const bodyText = bodyLines.join('\n').trim();
+        
+        if (/super\s*\(\s*\)/.test(bodyText)) {
+            method.callsSuper = true;
+        }
+        
+        if (bodyText === 'pass' || bodyText === '...' || (bodyLines.length === 1 && bodyLines[0].trim() === 'pass')) {
+            method.isStub = true;
+            method.stubType = 'pass';
+        } else if (bodyText.includes('raise NotImplementedError') || bodyText.includes('raise NotImplemented')) {
+            method.isStub = true;
+            method.stubType = 'not_implemented';
+        }
+    }
+    
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+        const trimmed = line.trimStart();
+        const indent = line.length - trimmed.length;
+        
+        const classMatch = trimmed.match(/^class\s+(\w+)/);
+        if (classMatch) {
+            if (currentClass) {
+                if (currentMethod) {
+                    finalizeMethod(currentMethod, methodBodyLines);
+                    currentClass.methods.push(currentMethod);
+                }
+                currentClass.endLine = i - 1;
+                classes.push(currentClass);
+            }
+            currentClass = {
+                name: classMatch[1],
+                startLine: i,
+                endLine: i,
+                methods: [],
+                instanceVariables: new Set()
+            };
+            currentMethod = null;
+            methodBodyLines = [];
+            classIndent = indent;
+            continue;
+        }
+        
+        if (currentClass && indent <= classIndent && trimmed.length > 0 && !classMatch) {
+            if (currentMethod) {
+                finalizeMethod(currentMethod, methodBodyLines);
+                currentClass.methods.push(currentMethod);
+            }
+            currentClass.endLine = i - 1;
+            classes.push(currentClass);
+            currentClass = null;
+            currentMethod = null;
+            methodBodyLines = [];
+            continue;
+        }
+        
+        if (currentClass) {
+            const methodMatch = trimmed.match(/^def\s+(\w+)\s*\(/);
+            if (methodMatch) {
+                if (currentMethod) {
+                    finalizeMethod(currentMethod, methodBodyLines);
+                    currentClass.methods.push(currentMethod);
+                }
+                currentMethod = {
+                    name: methodMatch[1],
+                    startLine: i,
+                    endLine: i,
+                    usedVariables: new Set(),
+                    calledMethods: new Set(),
+                    callsSuper: false,
+                    isStub: false,
+                    stubType: 'none'
+                };
+                methodBodyLines = [];
+                methodIndent = indent;
+                continue;
+            }
+            
+            if (currentMethod && indent > methodIndent) {
+                currentMethod.endLine = i;
+                methodBodyLines.push(trimmed);
+                
+                const selfVarMatches = line.matchAll(/self\.(\w+)/g);
+                for (const match of selfVarMatches) {
+                    const varName = match[1];
+                    if (!varName.startsWith('_') || !varName.endsWith('_')) {
+                        if (line.includes(`self.${varName}(`) || line.includes(`self.${varName} (`)) {
+                            currentMethod.calledMethods.add(varName);
+                        } else {
+                            currentMethod.usedVariables.add(varName);
+                            currentClass.instanceVariables.add(varName);
+                        }
+                    }
+                }
+            }
+        }
+    }
+    
+    if (currentClass) {
+        if (currentMethod) {
+            finalizeMethod(currentMethod, methodBodyLines);
+            currentClass.methods.push(currentMethod);
+        }
+        currentClass.endLine = lines.length - 1;
+        classes.push(currentClass);
+    }
+    
+    return classes;
+}
+
+function parseTypeScriptClasses(lines: string[]): ClassInfo[] {
+    const classes: ClassInfo[] = [];
+    let currentClass: ClassInfo | null = null;
+    let currentMethod: MethodInfo | null = null;
+    let braceCount = 0;
+    let classStartBrace = 0;
+    let methodStartBrace = 0;
+    let methodBodyLines: string[] = [];
+    
+    function finalizeMethod(method: MethodInfo, bodyLines: string[]): void {
+        const bodyText = bodyLines.join(' ').trim();
+        
+        if (/super\./.test(bodyText)) {
+            method.callsSuper = true;
+        }
+        
+        const bodyWithoutBraces = bodyText.replace(/[{}]/g, '').trim();
+        if (bodyWithoutBraces === '' || /^\w+\s*\([^)]*\)\s*$/.test(bodyWithoutBraces)) {
+            method.isStub = true;
+            method.stubType = 'pass';
+        } else if (bodyText.includes('throw new Error') && 
+                   (bodyText.toLowerCase().includes('not implemented') || bodyText.includes('NotImplemented'))) {
+            method.isStub = true;
+            method.stubType = 'not_implemented';
+        }
+    }
+    
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+        const trimmed = line.trim();
+        
+        const classMatch = trimmed.match(/^(?:export\s+)?class\s+(\w+)/);
+        if (classMatch && braceCount === 0) {
+            currentClass = {
+                name: classMatch[1],
+                startLine: i,
+                endLine: i,
+                methods: [],
+                instanceVariables: new Set()
+            };
+            classStartBrace = braceCount;
+        }
+        
+        const openBraces = (line.match(/{/g) || []).length;
+        const closeBraces = (line.match(/}/g) || []).length;
+        braceCount += openBraces - closeBraces;
+        
+        if (currentClass) {
+            const methodMatch = trimmed.match(/^(?:public\s+|private\s+|protected\s+)?(?:async\s+)?(\w+)\s*\(/);
+            if (methodMatch && !trimmed.startsWith('constructor') && braceCount === classStartBrace + 1) {
+                if (currentMethod) {
+                    finalizeMethod(currentMethod, methodBodyLines);
+                    currentClass.methods.push(currentMethod);
+                }
+                currentMethod = {
+                    name: methodMatch[1],
+                    startLine: i,
+                    endLine: i,
+                    usedVariables: new Set(),
+                    calledMethods: new Set(),
+                    callsSuper: false,
+                    isStub: false,
+                    stubType: 'none'
+                };
+                methodBodyLines = [];
+                methodStartBrace = braceCount;
+            }
+            
+            if (currentMethod && braceCount > methodStartBrace) {
+                currentMethod.endLine = i;
+                methodBodyLines.push(trimmed);
+                
+                const thisVarMatches = line.matchAll(/this\.(\w+)/g);
+                for (const match of thisVarMatches) {
+                    const varName = match[1];
+                    if (line.includes(`this.${varName}(`) || line.includes(`this.${varName} (`)) {
+                        currentMethod.calledMethods.add(varName);
+                    } else {
+                        currentMethod.usedVariables.add(varName);
+                        currentClass.instanceVariables.add(varName);
+                    }
+                }
+            }
+            
+            if (currentMethod && braceCount <= methodStartBrace && closeBraces > 0) {
+                finalizeMethod(currentMethod, methodBodyLines);
+                currentClass.methods.push(currentMethod);
+                currentMethod = null;
+                methodBodyLines = [];
+            }
+            
+            if (braceCount === 0 && currentClass) {
+                currentClass.endLine = i;
+                classes.push(currentClass);
+                currentClass = null;
+            }
+        }
+    }
+    
+    return classes;
+}
+
+export function calculateLCOM4(classInfo: ClassInfo): LCOM4Result {
+    const excludedMethods: string[] = [];
+    const excludeReasons: Record<string, string> = {};
+    
+    const methods = classInfo.methods.filter(m => {
+        if (m.name.startsWith('__')) {
+            excludedMethods.push(m.name);
+            excludeReasons[m.name] = 'dunder method';
+            return false;
+        }
+        if (m.isStub) {
+            excludedMethods.push(m.name);
+            excludeReasons[m.name] = m.stubType === 'pass' ? 'stub (pass)' : 'stub (NotImplementedError)';
+            return false;
+        }
+        if (m.callsSuper) {
+            excludedMethods.push(m.name);
+            excludeReasons[m.name] = 'calls super()';
+            return false;
+        }
+        if (m.usedVariables.size === 0 && m.calledMethods.size === 0) {
+            excludedMethods.push(m.name);
+            excludeReasons[m.name] = 'no instance variable usage (likely override)';
+            return false;
+        }
+        return true;
+    });
+    
+    if (methods.length <= 1) {
+        return {
+            className: classInfo.name,
+            startLine: classInfo.startLine,
+            lcom4Value: 1,
+            connectedComponents: [methods.map(m => m.name)],
+            suggestion: 'Class has 0 or 1 analyzed method, LCOM4 is trivially 1.',
+            excludedMethods,
+            excludeReasons
+        };
+    }
+    
+    const adjacency = new Map<string, Set<string>>();
+    for (const method of methods) {
+        adjacency.set(method.name, new Set());
+    }
+    
+    for (let i = 0; i < methods.length; i++) {
+        for (let j = i + 1; j < methods.length; j++) {
+            const m1 = methods[i];
+            const m2 = methods[j];
+            
+            const sharedVars = [...m1.usedVariables].filter(v => m2.usedVariables.has(v));
+            const m1CallsM2 = m1.calledMethods.has(m2.name);
+            const m2CallsM1 = m2.calledMethods.has(m1.name);
+            
+            if (sharedVars.length > 0 || m1CallsM2 || m2CallsM1) {
+                adjacency.get(m1.name)!.add(m2.name);
+                adjacency.get(m2.name)!.add(m1.name);
+            }
+        }
+    }
+    
+    const visited = new Set<string>();
+    const components: string[][] = [];
+    
+    for (const method of methods) {
+        if (!visited.has(method.name)) {
+            const component: string[] = [];
+            const stack = [method.name];
+            
+            while (stack.length > 0) {
+                const current = stack.pop()!;
+                if (!visited.has(current)) {
+                    visited.add(current);
+                    component.push(current);
+                    
+                    for (const neighbor of adjacency.get(current) || []) {
+                        if (!visited.has(neighbor)) {
+                            stack.push(neighbor);
+                        }
+                    }
+                }
+            }
+            
+            components.push(component);
+        }
+    }
+    
+    const suggestion = generateLCOM4Suggestion(classInfo.name, components);
+    
+    return {
+        className: classInfo.name,
+        startLine: classInfo.startLine,
+        lcom4Value: components.length,
+        connectedComponents: components,
+        suggestion,
+        excludedMethods,
+        excludeReasons
+    };
+}
+
+function generateLCOM4Suggestion(className: string, components: string[][]): string {
+    if (components.length <= 1) {
+        return 'Class appears to be cohesive.';
+    }
+    
+    const componentDescriptions = components.map((comp, idx) => 
+        `Group ${idx + 1}: ${comp.join(', ')}`
+    ).join('; ');
+    
+    return `Consider splitting into ${components.length} classes. Method groups: ${componentDescriptions}`;
+}
+
+export function generateSRPPrompt(violations: LCOM4Result[], filePath: string): string {
+    const fileName = path.basename(filePath);
+    
+    let prompt = `# Single Responsibility Principle Violation Analysis\n\n`;
+    prompt += `**File:** ${fileName}\n\n`;
+    prompt += `The following class(es) may violate the Single Responsibility Principle based on LCOM4 analysis:\n\n`;
+    
+    for (const violation of violations) {
+        prompt += `## Class: ${violation.className}\n`;
+        prompt += `- **LCOM4 Score:** ${violation.lcom4Value} (ideal is 1)\n`;
+        prompt += `- **Connected Components:** ${violation.lcom4Value}\n`;
+        
+        if (violation.excludedMethods.length > 0) {
+            prompt += `- **Excluded Methods:** ${violation.excludedMethods.length} (override/stub methods not analyzed)\n`;
+        }
+        
+        prompt += `\n### Method Groups (disconnected responsibilities):\n`;
+        
+        for (let i = 0; i < violation.connectedComponents.length; i++) {
+            const component = violation.connectedComponents[i];
+            prompt += `${i + 1}. **Responsibility ${i + 1}:** ${component.join(', ')}\n`;
+        }
+        
+        if (violation.excludedMethods.length > 0) {
+            prompt += `\n### Excluded from Analysis:\n`;
+            prompt += `The following methods were excluded from LCOM4 calculation:\n`;
+            for (const methodName of violation.excludedMethods) {
+                const reason = violation.excludeReasons[methodName] || 'unknown';
+                prompt += `- \`${methodName}\`: ${reason}\n`;
+            }
+        }
+        
+        prompt += `\n### Recommended Refactoring:\n`;
+        prompt += `This class has ${violation.lcom4Value} disconnected groups of methods that don't share state or call each other. `;
+        prompt += `Consider extracting each group into its own class:\n\n`;
+        
+        for (let i = 0; i < violation.connectedComponents.length; i++) {
+            const component = violation.connectedComponents[i];
+            const suggestedName = `${violation.className}${getSuggestedSuffix(i, violation.connectedComponents.length)}`;
+            prompt += `- Create \`${suggestedName}\` with methods: ${component.join(', ')}\n`;
+        }
+        
+        prompt += `\n`;
+    }
+    
+    prompt += `---\n`;
+    prompt += `**Action Required:** Please refactor the above class(es) to follow the Single Responsibility Principle. `;
+    prompt += `Each new class should have one clear responsibility and all its methods should be cohesive (working on the same data/state).\n`;
+    
+    return prompt;
+}
+
+function getSuggestedSuffix(index: number, total: number): string {
+    if (total === 2) {
+        return index === 0 ? 'Core' : 'Helper';
+    }
+    const suffixes = ['Core', 'Manager', 'Handler', 'Service', 'Processor', 'Builder', 'Factory', 'Provider'];
+    return suffixes[index % suffixes.length];
+}
+
+export function detectOCPViolations(methodText: string, startLine: number, languageId: string): OCPViolation[] {
+    if (languageId === 'python') {
+        return detectPythonOCPViolations(methodText, startLine);
+    } else if (languageId === 'typescript' || languageId === 'javascript' || languageId === 'typescriptreact' || languageId === 'javascriptreact') {
+        return detectTypeScriptOCPViolations(methodText, startLine);
+    }
+    return [];
+}
+
+function detectPythonOCPViolations(methodText: string, startLine: number): OCPViolation[] {
+    const violations: OCPViolation[] = [];
+    const lines = methodText.split('\n');
+    
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+        const lineNumber = startLine + i;
+        
+        const isinstanceMatches = line.matchAll(/isinstance\s*\(\s*\w+\s*,\s*[\w.]+\s*\)/g);
+        for (const match of isinstanceMatches) {
+            violations.push({
+                line: lineNumber,
+                type: 'instanceof',
+                code: match[0]
+            });
+        }
+        
+        const typeEqualityMatches = line.matchAll(/type\s*\(\s*\w+\s*\)\s*[=!]=\s*[\w.]+/g);
+        for (const match of typeEqualityMatches) {
+            violations.push({
+                line: lineNumber,
+                type: 'type_equality',
+                code: match[0]
+            });
+        }
+        
+        const typeFieldMatches = line.matchAll(/\.\s*(type|kind|_type|__type__|category|variant)\s*[=!]=\s*["']?\w+["']?/g);
+        for (const match of typeFieldMatches) {
+            violations.push({
+                line: lineNumber,
+                type: 'type_field',
+                code: match[0]
+            });
+        }
+        
+        const matchCasePattern = /^\s*case\s+["']?\w+["']?\s*:/;
+        if (matchCasePattern.test(line)) {
+            violations.push({
+                line: lineNumber,
+                type: 'type_field',
+                code: line.trim()
+            });
+        }
+    }
+    
+    return violations;
+}
+
+function detectTypeScriptOCPViolations(methodText: string, startLine: number): OCPViolation[] {
+    const violations: OCPViolation[] = [];
+    const lines = methodText.split('\n');
+    
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+        const lineNumber = startLine + i;
+        
+        const instanceofMatches = line.matchAll(/\w+\s+instanceof\s+\w+/g);
+        for (const match of instanceofMatches) {
+            violations.push({
+                line: lineNumber,
+                type: 'instanceof',
+                code: match[0]
+            });
+        }
+        
+        const typeofMatches = line.matchAll(/typeof\s+\w+\s*[=!]==?\s*["']\w+["']/g);
+        for (const match of typeofMatches) {
+            if (!line.includes("typeof") || 
+                !(line.includes("'string'") || line.includes('"string"') ||
+                  line.includes("'number'") || line.includes('"number"') ||
+                  line.includes("'boolean'") || line.includes('"boolean"') ||
+                  line.includes("'undefined'") || line.includes('"undefined"'))) {
+                violations.push({
+                    line: lineNumber,
+                    type: 'typeof',
+                    code: match[0]
+                });
+            }
+        }
+        
+        const typeFieldMatches = line.matchAll(/\.\s*(type|kind|_type|__type|category|variant|discriminator)\s*[=!]==?\s*["']?\w+["']?/g);
+        for (const match of typeFieldMatches) {
+            violations.push({
+                line: lineNumber,
+                type: 'type_field',
+                code: match[0]
+            });
+        }
+        
+        const switchCasePattern = /^\s*case\s+["']?\w+["']?\s*:/;
+        if (switchCasePattern.test(line)) {
+            const nearSwitch = methodText.substring(0, methodText.indexOf(line));
+            if (/switch\s*\(\s*\w+\.(type|kind|_type|category|variant|discriminator)\s*\)/i.test(nearSwitch)) {
+                violations.push({
+                    line: lineNumber,
+                    type: 'type_field',
+                    code: line.trim()
+                });
+            }
+        }
+    }
+    
+    return violations;
+}
+
+function calculateTCD(violations: OCPViolation[], totalLines: number): number {
+    const typeChecks = violations.filter(v => v.type === 'instanceof' || v.type === 'type_equality' || v.type === 'typeof').length;
+    return totalLines > 0 ? typeChecks / totalLines : 0;
+}
+
+function calculateTFSC(violations: OCPViolation[]): number {
+    return violations.filter(v => v.type === 'type_field').length;
+}
+
+function calculateOCPScore(violations: OCPViolation[]): number {
+    let score = 0;
+    for (const v of violations) {
+        switch (v.type) {
+            case 'instanceof':
+                score += 2.0;
+                break;
+            case 'type_equality':
+                score += 2.0;
+                break;
+            case 'typeof':
+                score += 1.0;
+                break;
+            case 'type_field':
+                score += 1.5;
+                break;
+        }
+    }
+    return score;
+}
+
+function generateOCPSuggestion(violations: OCPViolation[], ocpScore: number): string {
+    if (ocpScore <= 4) {
+        return 'Minor type-checking detected. Consider if polymorphism would be beneficial.';
+    }
+    
+    const instanceofCount = violations.filter(v => v.type === 'instanceof' || v.type === 'type_equality').length;
+    const typeFieldCount = violations.filter(v => v.type === 'type_field').length;
+    
+    if (instanceofCount > typeFieldCount) {
+        return 'Consider using polymorphism (Strategy/Visitor pattern) instead of instanceof checks.';
+    } else {
+        return 'Consider using polymorphism or discriminated unions instead of type-field switches.';
+    }
+}
+
+export function generateOCPPrompt(violations: OCPResult[], filePath: string): string {
+    const fileName = path.basename(filePath);
+    
+    let prompt = `# Open/Closed Principle Violation Analysis\n\n`;
+    prompt += `**File:** ${fileName}\n\n`;
+    prompt += `The following method(s) may violate the Open/Closed Principle:\n\n`;
+    
+    for (const violation of violations) {
+        prompt += `## Class: ${violation.className}, Method: ${violation.methodName}\n`;
+        prompt += `- **OCP Score:** ${violation.ocpScore.toFixed(1)} (threshold exceeded)\n`;
+        prompt += `- **Type-Check Density (TCD):** ${(violation.tcd * 100).toFixed(1)}%\n`;
+        prompt += `- **Type-Field Switch Count (TFSC):** ${violation.tfsc}\n\n`;
+        
+        prompt += `### Detected Violations:\n`;
+        const groupedViolations = new Map<string, OCPViolation[]>();
+        for (const v of violation.violations) {
+            const key = v.type;
+            if (!groupedViolations.has(key)) {
+                groupedViolations.set(key, []);
+            }
+            groupedViolations.get(key)!.push(v);
+        }
+        
+        for (const [type, items] of groupedViolations) {
+            const typeLabel = type === 'instanceof' ? 'isinstance/instanceof checks' :
+                             type === 'type_equality' ? 'type() equality checks' :
+                             type === 'typeof' ? 'typeof checks' : 'type-field conditionals';
+            prompt += `- **${typeLabel}:** ${items.length}\n`;
+            for (const item of items.slice(0, 3)) {
+                prompt += `  - Line ${item.line + 1}: \`${item.code}\`\n`;
+            }
+            if (items.length > 3) {
+                prompt += `  - ... and ${items.length - 3} more\n`;
+            }
+        }
+        
+        prompt += `\n### Recommended Refactoring:\n`;
+        prompt += `${violation.suggestion}\n\n`;
+        prompt += `**Patterns to consider:**\n`;
+        prompt += `1. **Strategy Pattern:** Extract each type-specific behavior into separate strategy classes\n`;
+        prompt += `2. **Polymorphism:** Move behavior into subclasses and use method overriding\n`;
+        prompt += `3. **Visitor Pattern:** If operations vary independently from object structure\n`;
+        prompt += `4. **Factory + Registry:** Register handlers for each type dynamically\n\n`;
+    }
+    
+    prompt += `---\n`;
+    prompt += `**Action Required:** Refactor to eliminate type-checking conditionals. `;
+    prompt += `New types should be addable without modifying existing code.\n`;
+    
+    return prompt;
+}
+
+export interface ClassWithConstructor extends ClassInfo {
+    constructorStartLine: number;
+    constructorEndLine: number;
+    constructorParams: string[];
+}
+
+export function parseClassesWithConstructors(text: string, languageId: string): ClassWithConstructor[] {
+    const baseClasses = parseClasses(text, languageId);
+    const lines = text.split('\n');
+    const result: ClassWithConstructor[] = [];
+    
+    for (const classInfo of baseClasses) {
+        const classWithCtor: ClassWithConstructor = {
+            ...classInfo,
+            constructorStartLine: -1,
+            constructorEndLine: -1,
+            constructorParams: []
+        };
+        
+        if (languageId === 'python') {
+            const initMethod = classInfo.methods.find(m => m.name === '__init__');
+            if (initMethod) {
+                classWithCtor.constructorStartLine = initMethod.startLine;
+                classWithCtor.constructorEndLine = initMethod.endLine;
+                const initLine = lines[initMethod.startLine];
+                const paramMatch = initLine.match(/def\s+__init__\s*\(\s*self\s*,?\s*([^)]*)\)/);
+                if (paramMatch && paramMatch[1]) {
+                    classWithCtor.constructorParams = paramMatch[1].split(',').map(p => p.trim()).filter(p => p.length > 0);
+                }
+            }
+        } else if (languageId === 'typescript' || languageId === 'javascript' || languageId === 'typescriptreact' || languageId === 'javascriptreact') {
+            for (let i = classInfo.startLine; i <= classInfo.endLine; i++) {
+                const line = lines[i];
+                if (/^\s*constructor\s*\(/.test(line)) {
+                    classWithCtor.constructorStartLine = i;
+                    let braceCount = 0;
+                    let foundStart = false;
+                    for (let j = i; j <= classInfo.endLine; j++) {
+                        const ctorLine = lines[j];
+                        for (const char of ctorLine) {
+                            if (char === '{') {
+                                foundStart = true;
+                                braceCount++;
+                            } else if (char === '}') {
+                                braceCount--;
+                            }
+                        }
+                        if (foundStart && braceCount === 0) {
+                            classWithCtor.constructorEndLine = j;
+                            break;
+                        }
+                    }
+                    const ctorMatch = line.match(/constructor\s*\(([^)]*)\)/);
+                    if (ctorMatch && ctorMatch[1]) {
+                        classWithCtor.constructorParams = ctorMatch[1].split(',').map(p => p.trim()).filter(p => p.length > 0);
+                    }
+                    break;
+                }
+            }
+        }
+        
+        result.push(classWithCtor);
+    }
+    
+    return result;
+}
+
+export function analyzeDIP(classInfo: ClassWithConstructor, text: string, languageId: string): DIPResult {
+    const violations: DIPViolation[] = [];
+    const lines = text.split('\n');
+    
+    let constructorInstantiations = 0;
+    let methodInstantiations = 0;
+    const instantiatedClasses = new Set<string>();
+    
+    if (languageId === 'python') {
+        if (classInfo.constructorStartLine >= 0) {
+            for (let i = classInfo.constructorStartLine; i <= classInfo.constructorEndLine; i++) {
+                const line = lines[i];
+                const instantiations = detectPythonInstantiations(line);
+                for (const inst of instantiations) {
+                    if (!isExcludedClass(inst, languageId)) {
+                        constructorInstantiations++;
+                        instantiatedClasses.add(inst);
+                        violations.push({
+                            line: i,
+                            type: 'constructor_instantiation',
+                            code: line.trim(),
+                            className: inst
+                        });
+                    }
+                }
+            }
+        }
+        
+        for (const method of classInfo.methods) {
+            if (method.name === '__init__') {
+                continue;
+            }
+            for (let i = method.startLine; i <= method.endLine; i++) {
+                const line = lines[i];
+                const instantiations = detectPythonInstantiations(line);
+                for (const inst of instantiations) {
+                    if (!isExcludedClass(inst, languageId)) {
+                        methodInstantiations++;
+                        instantiatedClasses.add(inst);
+                        violations.push({
+                            line: i,
+                            type: 'method_instantiation',
+                            code: line.trim(),
+                            className: inst
+                        });
+                    }
+                }
+            }
+        }
+    } else if (languageId === 'typescript' || languageId === 'javascript' || languageId === 'typescriptreact' || languageId === 'javascriptreact') {
+        if (classInfo.constructorStartLine >= 0) {
+            for (let i = classInfo.constructorStartLine; i <= classInfo.constructorEndLine; i++) {
+                const line = lines[i];
+                const instantiations = detectTypeScriptInstantiations(line);
+                for (const inst of instantiations) {
+                    if (!isExcludedClass(inst, languageId)) {
+                        constructorInstantiations++;
+                        instantiatedClasses.add(inst);
+                        violations.push({
+                            line: i,
+                            type: 'constructor_instantiation',
+                            code: line.trim(),
+                            className: inst
+                        });
+                    }
+                }
+            }
+        }
+        
+        for (const method of classInfo.methods) {
+            for (let i = method.startLine; i <= method.endLine; i++) {
+                const line = lines[i];
+                const instantiations = detectTypeScriptInstantiations(line);
+                for (const inst of instantiations) {
+                    if (!isExcludedClass(inst, languageId)) {
+                        methodInstantiations++;
+                        instantiatedClasses.add(inst);
+                        violations.push({
+                            line: i,
+                            type: 'method_instantiation',
+                            code: line.trim(),
+                            className: inst
+                        });
+                    }
+                }
+            }
+        }
+    }
+    
+    const injectedDependencies = classInfo.constructorParams.length;
+    const totalDependencies = injectedDependencies + instantiatedClasses.size;
+    const dii = totalDependencies > 0 ? injectedDependencies / totalDependencies : 1;
+    
+    const dipScore = (constructorInstantiations * 2.0) + (methodInstantiations * 1.5);
+    
+    return {
+        className: classInfo.name,
+        startLine: classInfo.startLine,
+        constructorInstantiations,
+        methodInstantiations,
+        injectedDependencies,
+        totalDependencies,
+        dii,
+        dipScore,
+        violations,
+        suggestion: generateDIPSuggestion(constructorInstantiations, methodInstantiations, dii)
+    };
+}
+
+function detectPythonInstantiations(line: string): string[] {
+    const results: string[] = [];
+    const pattern = /([A-Z][a-zA-Z0-9_]*)\s*\(/g;
+    let match;
+    while ((match = pattern.exec(line)) !== null) {
+        if (!line.includes(`def ${match[1]}`) && !line.includes(`class ${match[1]}`)) {
+            results.push(match[1]);
+        }
+    }
+    return results;
+}
+
+function detectTypeScriptInstantiations(line: string): string[] {
+    const results: string[] = [];
+    const pattern = /new\s+([A-Z][a-zA-Z0-9_]*)\s*\(/g;
+    let match;
+    while ((match = pattern.exec(line)) !== null) {
+        results.push(match[1]);
+    }
+    return results;
+}
+
+function isExcludedClass(className: string, languageId: string): boolean {
+    const pythonExclusions = ['Exception', 'Error', 'ValueError', 'TypeError', 'RuntimeError', 'KeyError', 'AttributeError', 'IndexError', 'StopIteration', 'Dict', 'List', 'Set', 'Tuple', 'Optional', 'Union', 'Any', 'Callable', 'Type', 'Literal'];
+    const tsExclusions = ['Error', 'TypeError', 'RangeError', 'SyntaxError', 'Array', 'Object', 'Map', 'Set', 'WeakMap', 'WeakSet', 'Promise', 'Date', 'RegExp', 'URL', 'URLSearchParams', 'FormData', 'Headers', 'Request', 'Response', 'Event', 'CustomEvent', 'EventEmitter'];
+    
+    if (languageId === 'python') {
+        return pythonExclusions.includes(className);
+    } else {
+        return tsExclusions.includes(className);
+    }
+}
+
+function generateDIPSuggestion(constructorInst: number, methodInst: number, dii: number): string {
+    if (constructorInst === 0 && methodInst === 0) {
+        return 'Class follows Dependency Inversion Principle.';
+    }
+    
+    const suggestions: string[] = [];
+    
+    if (constructorInst > 0) {
+        suggestions.push(`Inject ${constructorInst} dependency(ies) via constructor parameters instead of instantiating directly`);
+    }
+    
+    if (methodInst > 0) {
+        suggestions.push(`Consider injecting ${methodInst} dependency(ies) or using factory pattern`);
+    }
+    
+    if (dii < 0.5) {
+        suggestions.push('Low DII indicates most dependencies are created internally');
+    }
+    
+    return suggestions.join('. ') + '.';
+}
+
+export function generateDIPPrompt(violations: DIPResult[], filePath: string): string {
+    const fileName = path.basename(filePath);
+    
+    let prompt = `# Dependency Inversion Principle Violation Analysis\n\n`;
+    prompt += `**File:** ${fileName}\n\n`;
+    prompt += `The following class(es) may violate the Dependency Inversion Principle:\n\n`;
+    
+    for (const violation of violations) {
+        prompt += `## Class: ${violation.className}\n`;
+        prompt += `- **DIP Score:** ${violation.dipScore.toFixed(1)} (threshold exceeded)\n`;
+        prompt += `- **Dependency Injection Index (DII):** ${(violation.dii * 100).toFixed(0)}% (100% = all injected)\n`;
+        prompt += `- **Constructor Instantiations:** ${violation.constructorInstantiations}\n`;
+        prompt += `- **Method Instantiations:** ${violation.methodInstantiations}\n`;
+        prompt += `- **Injected Dependencies:** ${violation.injectedDependencies}\n\n`;
+        
+        if (violation.violations.length > 0) {
+            prompt += `### Direct Instantiations Found:\n`;
+            const ctorViolations = violation.violations.filter(v => v.type === 'constructor_instantiation');
+            const methodViolations = violation.violations.filter(v => v.type === 'method_instantiation');
+            
+            if (ctorViolations.length > 0) {
+                prompt += `\n**In Constructor:**\n`;
+                for (const v of ctorViolations.slice(0, 5)) {
+                    prompt += `- Line ${v.line + 1}: \`${v.className}\` - \`${v.code}\`\n`;
+                }
+                if (ctorViolations.length > 5) {
+                    prompt += `- ... and ${ctorViolations.length - 5} more\n`;
+                }
+            }
+            
+            if (methodViolations.length > 0) {
+                prompt += `\n**In Methods:**\n`;
+                for (const v of methodViolations.slice(0, 5)) {
+                    prompt += `- Line ${v.line + 1}: \`${v.className}\` - \`${v.code}\`\n`;
+                }
+                if (methodViolations.length > 5) {
+                    prompt += `- ... and ${methodViolations.length - 5} more\n`;
+                }
+            }
+        }
+        
+        prompt += `\n### Recommended Refactoring:\n`;
+        prompt += `${violation.suggestion}\n\n`;
+        prompt += `**Steps to fix:**\n`;
+        prompt += `1. Create abstractions (interfaces/protocols) for each concrete dependency\n`;
+        prompt += `2. Add constructor parameters to receive dependencies\n`;
+        prompt += `3. Have concrete classes implement the abstractions\n`;
+        prompt += `4. Inject dependencies from calling code or use a DI container\n\n`;
+    }
+    
+    prompt += `---\n`;
+    prompt += `**Action Required:** Refactor to inject dependencies instead of creating them internally. `;
+    prompt += `High-level modules should depend on abstractions, not concrete implementations.\n`;
+    
+    return prompt;
+}
+
+export interface InterfaceInfo {
+    name: string;
+    startLine: number;
+    abstractMethodCount: number;
+    methods: string[];
+}
+
+export interface ImplementationInfo {
+    name: string;
+    startLine: number;
+    totalMethods: number;
+    emptyMethods: { name: string; line: number; code: string }[];
+    notImplementedMethods: { name: string; line: number; code: string }[];
+}
+
+export function parseInterfaces(text: string, languageId: string): InterfaceInfo[] {
+    const interfaces: InterfaceInfo[] = [];
+    const lines = text.split('\n');
+    
+    if (languageId === 'python') {
+        let currentInterface: InterfaceInfo | null = null;
+        let classIndent = 0;
+        let isAbcClass = false;
+        
+        for (let i = 0; i < lines.length; i++) {
+            const line = lines[i];
+            const trimmed = line.trimStart();
+            const indent = line.length - trimmed.length;
+            
+            const classMatch = trimmed.match(/^class\s+(\w+)\s*\(([^)]*)\)/);
+            if (classMatch) {
+                if (currentInterface && currentInterface.abstractMethodCount > 0) {
+                    interfaces.push(currentInterface);
+                }
+                
+                const parentClasses = classMatch[2];
+                isAbcClass = /ABC|Protocol/.test(parentClasses);
+                
+                if (isAbcClass) {
+                    currentInterface = {
+                        name: classMatch[1],
+                        startLine: i,
+                        abstractMethodCount: 0,
+                        methods: []
+                    };
+                    classIndent = indent;
+                } else {
+                    currentInterface = null;
+                }
+                continue;
+            }
+            
+            if (currentInterface && indent <= classIndent && trimmed.length > 0 && !classMatch) {
+                if (currentInterface.abstractMethodCount > 0) {
+                    interfaces.push(currentInterface);
+                }
+                currentInterface = null;
+                continue;
+            }
+            
+            if (currentInterface) {
+                if (trimmed.includes('@abstractmethod')) {
+                    const nextLine = lines[i + 1] || '';
+                    const methodMatch = nextLine.trimStart().match(/^def\s+(\w+)/);
+                    if (methodMatch) {
+                        currentInterface.abstractMethodCount++;
+                        currentInterface.methods.push(methodMatch[1]);
+                    }
+                }
+            }
+        }
+        
+        if (currentInterface && currentInterface.abstractMethodCount > 0) {
+            interfaces.push(currentInterface);
+        }
+    } else if (languageId === 'typescript' || languageId === 'typescriptreact') {
+        let braceCount = 0;
+        let currentInterface: InterfaceInfo | null = null;
+        
+        for (let i = 0; i < lines.length; i++) {
+            const line = lines[i];
+            const trimmed = line.trim();
+            
+            const interfaceMatch = trimmed.match(/^(?:export\s+)?interface\s+(\w+)/);
+            if (interfaceMatch && braceCount === 0) {
+                currentInterface = {
+                    name: interfaceMatch[1],
+                    startLine: i,
+                    abstractMethodCount: 0,
+                    methods: []
+                };
+            }
+            
+            const abstractClassMatch = trimmed.match(/^(?:export\s+)?abstract\s+class\s+(\w+)/);
+            if (abstractClassMatch && braceCount === 0) {
+                currentInterface = {
+                    name: abstractClassMatch[1],
+                    startLine: i,
+                    abstractMethodCount: 0,
+                    methods: []
+                };
+            }
+            
+            const openBraces = (line.match(/{/g) || []).length;
+            const closeBraces = (line.match(/}/g) || []).length;
+            braceCount += openBraces - closeBraces;
+            
+            if (currentInterface) {
+                const methodMatch = trimmed.match(/^(?:abstract\s+)?(\w+)\s*\([^)]*\)\s*[:{]/);
+                if (methodMatch && !trimmed.startsWith('constructor')) {
+                    currentInterface.abstractMethodCount++;
+                    currentInterface.methods.push(methodMatch[1]);
+                }
+                
+                const propMethodMatch = trimmed.match(/^(\w+)\s*\([^)]*\)\s*:/);
+                if (propMethodMatch) {
+                    currentInterface.abstractMethodCount++;
+                    currentInterface.methods.push(propMethodMatch[1]);
+                }
+                
+                if (braceCount === 0 && closeBraces > 0) {
+                    if (currentInterface.abstractMethodCount > 0) {
+                        interfaces.push(currentInterface);
+                    }
+                    currentInterface = null;
+                }
+            }
+        }
+    }
+    
+    return interfaces;
+}
+
+export function parseImplementations(text: string, languageId: string): ImplementationInfo[] {
+    const implementations: ImplementationInfo[] = [];
+    const lines = text.split('\n');
+    
+    if (languageId === 'python') {
+        let currentClass: ImplementationInfo | null = null;
+        let classIndent = 0;
+        let methodIndent = 0;
+        let currentMethodName = '';
+        let currentMethodLine = 0;
+        let methodBody: string[] = [];
+        let inMethod = false;
+        
+        for (let i = 0; i < lines.length; i++) {
+            const line = lines[i];
+            const trimmed = line.trimStart();
+            const indent = line.length - trimmed.length;
+            
+            const classMatch = trimmed.match(/^class\s+(\w+)/);
+            if (classMatch) {
+                if (currentClass && inMethod) {
+                    checkPythonMethodBody(currentClass, currentMethodName, currentMethodLine, methodBody);
+                }
+                if (currentClass) {
+                    implementations.push(currentClass);
+                }
+                
+                currentClass = {
+                    name: classMatch[1],
+                    startLine: i,
+                    totalMethods: 0,
+                    emptyMethods: [],
+                    notImplementedMethods: []
+                };
+                classIndent = indent;
+                inMethod = false;
+                continue;
+            }
+            
+            if (currentClass && indent <= classIndent && trimmed.length > 0 && !classMatch) {
+                if (inMethod) {
+                    checkPythonMethodBody(currentClass, currentMethodName, currentMethodLine, methodBody);
+                }
+                implementations.push(currentClass);
+                currentClass = null;
+                inMethod = false;
+                continue;
+            }
+            
+            if (currentClass) {
+                const methodMatch = trimmed.match(/^def\s+(\w+)\s*\(/);
+                if (methodMatch) {
+                    if (inMethod) {
+                        checkPythonMethodBody(currentClass, currentMethodName, currentMethodLine, methodBody);
+                    }
+                    
+                    currentMethodName = methodMatch[1];
+                    currentMethodLine = i;
+                    methodIndent = indent;
+                    methodBody = [];
+                    inMethod = true;
+                    currentClass.totalMethods++;
+                    continue;
+                }
+                
+                if (inMethod && indent > methodIndent) {
+                    methodBody.push(trimmed);
+                } else if (inMethod && indent <= methodIndent && trimmed.length > 0) {
+                    checkPythonMethodBody(currentClass, currentMethodName, currentMethodLine, methodBody);
+                    inMethod = false;
+                }
+            }
+        }
+        
+        if (currentClass) {
+            if (inMethod) {
+                checkPythonMethodBody(currentClass, currentMethodName, currentMethodLine, methodBody);
+            }
+            implementations.push(currentClass);
+        }
+    } else if (languageId === 'typescript' || languageId === 'javascript' || languageId === 'typescriptreact' || languageId === 'javascriptreact') {
+        let currentClass: ImplementationInfo | null = null;
+        let braceCount = 0;
+        let classStartBrace = 0;
+        let methodStartBrace = 0;
+        let currentMethodName = '';
+        let currentMethodLine = 0;
+        let methodBody: string[] = [];
+        let inMethod = false;
+        
+        for (let i = 0; i < lines.length; i++) {
+            const line = lines[i];
+            const trimmed = line.trim();
+            
+            const classMatch = trimmed.match(/^(?:export\s+)?class\s+(\w+)/);
+            if (classMatch && braceCount === 0) {
+                if (currentClass) {
+                    implementations.push(currentClass);
+                }
+                currentClass = {
+                    name: classMatch[1],
+                    startLine: i,
+                    totalMethods: 0,
+                    emptyMethods: [],
+                    notImplementedMethods: []
+                };
+                classStartBrace = 0;
+                inMethod = false;
+            }
+            
+            const openBraces = (line.match(/{/g) || []).length;
+            const closeBraces = (line.match(/}/g) || []).length;
+            
+            if (currentClass) {
+                if (braceCount === classStartBrace + 1 || (braceCount === 0 && openBraces > 0)) {
+                    const methodMatch = trimmed.match(/^(?:public\s+|private\s+|protected\s+)?(?:async\s+)?(\w+)\s*\(/);
+                    if (methodMatch && !trimmed.startsWith('constructor')) {
+                        if (inMethod) {
+                            checkTSMethodBody(currentClass, currentMethodName, currentMethodLine, methodBody);
+                        }
+                        currentMethodName = methodMatch[1];
+                        currentMethodLine = i;
+                        methodStartBrace = braceCount;
+                        methodBody = [];
+                        inMethod = true;
+                        currentClass.totalMethods++;
+                    }
+                }
+                
+                if (inMethod) {
+                    methodBody.push(trimmed);
+                }
+            }
+            
+            braceCount += openBraces - closeBraces;
+            
+            if (currentClass && inMethod && braceCount <= methodStartBrace && closeBraces > 0) {
+                checkTSMethodBody(currentClass, currentMethodName, currentMethodLine, methodBody);
+                inMethod = false;
+            }
+            
+            if (currentClass && braceCount === 0 && closeBraces > 0) {
+                implementations.push(currentClass);
+                currentClass = null;
+            }
+        }
+    }
+    
+    return implementations;
+}
+
+function checkPythonMethodBody(impl: ImplementationInfo, methodName: string, methodLine: number, body: string[]): void {
+    if (methodName.startsWith('__') && methodName.endsWith('__') && methodName !== '__init__') {
+        return;
+    }
+    
+    const bodyText = body.join('\n').trim();
+    
+    if (bodyText === 'pass' || bodyText === '...' || bodyText === 'pass  ' || body.length === 1 && body[0].trim() === 'pass') {
+        impl.emptyMethods.push({
+            name: methodName,
+            line: methodLine,
+            code: `def ${methodName}(...): pass`
+        });
+        return;
+    }
+    
+    if (bodyText.includes('raise NotImplementedError') || bodyText.includes('raise NotImplemented')) {
+        impl.notImplementedMethods.push({
+            name: methodName,
+            line: methodLine,
+            code: `def ${methodName}(...): raise NotImplementedError`
+        });
+    }
+}
+
+function checkTSMethodBody(impl: ImplementationInfo, methodName: string, methodLine: number, body: string[]): void {
+    const bodyText = body.join(' ').replace(/[{}]/g, '').trim();
+    
+    if (bodyText === '' || bodyText === methodName + '()' || /^\w+\s*\([^)]*\)\s*$/.test(bodyText)) {
+        impl.emptyMethods.push({
+            name: methodName,
+            line: methodLine,
+            code: `${methodName}() { }`
+        });
+        return;
+    }
+    
+    if (bodyText.includes('throw new Error') && (bodyText.includes('not implemented') || bodyText.includes('Not implemented') || bodyText.includes('NotImplemented'))) {
+        impl.notImplementedMethods.push({
+            name: methodName,
+            line: methodLine,
+            code: `${methodName}() { throw new Error(...) }`
+        });
+    }
+}
+
+function generateISPSuggestion(emptyCount: number, notImplCount: number, sir: number): string {
+    const suggestions: string[] = [];
+    
+    if (emptyCount > 0) {
+        suggestions.push(`${emptyCount} empty method(s) indicate unused interface requirements`);
+    }
+    
+    if (notImplCount > 0) {
+        suggestions.push(`${notImplCount} NotImplementedError method(s) indicate forced interface compliance`);
+    }
+    
+    if (sir > 0.5) {
+        suggestions.push('High stub ratio suggests the interface is too broad for this class');
+    }
+    
+    suggestions.push('Consider using smaller, more focused interfaces');
+    
+    return suggestions.join('. ') + '.';
+}
+
+export function generateISPPrompt(violations: ISPResult[], filePath: string): string {
+    const fileName = path.basename(filePath);
+    
+    let prompt = `# Interface Segregation Principle Violation Analysis\n\n`;
+    prompt += `**File:** ${fileName}\n\n`;
+    prompt += `The following class(es)/interface(s) may violate the Interface Segregation Principle:\n\n`;
+    
+    for (const violation of violations) {
+        if (violation.isInterface) {
+            prompt += `## Interface: ${violation.className} (Fat Interface)\n`;
+            prompt += `- **Abstract Method Count (IFS):** ${violation.abstractMethodCount}\n`;
+            prompt += `- **Recommended:** Split into smaller interfaces with 3-5 methods each\n\n`;
+        } else {
+            prompt += `## Class: ${violation.className} (Forced Implementation)\n`;
+            prompt += `- **Stub Implementation Ratio (SIR):** ${(violation.sir * 100).toFixed(0)}%\n`;
+            prompt += `- **Empty Implementations:** ${violation.emptyImplementations}\n`;
+            prompt += `- **NotImplementedError Methods:** ${violation.notImplementedErrors}\n\n`;
+        }
+        
+        if (violation.violations.length > 0) {
+            prompt += `### Detected Issues:\n`;
+            for (const v of violation.violations.slice(0, 10)) {
+                const typeLabel = v.type === 'fat_interface' ? 'Fat Interface' :
+                                 v.type === 'empty_implementation' ? 'Empty Method' : 'NotImplementedError';
+                if (v.methodName) {
+                    prompt += `- **${typeLabel}:** \`${v.methodName}\` at line ${v.line + 1}\n`;
+                } else {
+                    prompt += `- **${typeLabel}:** ${v.code}\n`;
+                }
+            }
+            if (violation.violations.length > 10) {
+                prompt += `- ... and ${violation.violations.length - 10} more\n`;
+            }
+        }
+        
+        prompt += `\n### Recommended Refactoring:\n`;
+        prompt += `${violation.suggestion}\n\n`;
+    }
+    
+    prompt += `---\n`;
+    prompt += `**Action Required:** Split large interfaces into smaller, role-specific interfaces. `;
+    prompt += `Classes should only implement interfaces whose methods they actually use.\n`;
+    
+    return prompt;
+}
@@ -0,0 +1,198 @@
+import { describe, it, before, after, mock } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DEFAULT_SOLID_THRESHOLDS } from '../solid';
+import { UsageError, loadConfig, main, parseArgs, stripJsonComments } from '../cli';
+
+const SPLIT_CLASS = `class Report:
+    def __init__(self):
+        self.title = ''
+        self.conn = None
+
+    def render(self):
+        return self.title
+
+    def save(self):
+        return self.conn
+`;
+
+const COHESIVE_CLASS = `class Counter:
+    def __init__(self):
+        self.count = 0
+
+    def increment(self):
+        self.count += 1
+
+    def value(self):
+        return self.count
+`;
+
+function run(argv: string[]): { code: number; stdout: string; stderr: string } {
+    const log = mock.method(console, 'log', () => undefined);
+    const error = mock.method(console, 'error', () => undefined);
+    try {
+        const code = main(argv);
+        return {
+            code,
+            stdout: log.mock.calls.map(c => c.arguments.join(' ')).join('\n'),
+            stderr: error.mock.calls.map(c => c.arguments.join(' ')).join('\n')
+        };
+    } finally {
+        log.mock.restore();
+        error.mock.restore();
+    }
+}
+
+describe('parseArgs', () => {
+    it('parses options in both --flag value and --flag=value form', () => {
+        assert.deepEqual(parseArgs(['--format=json', '--principles', 'srp, dip', '--max-violations', '2', 'src', 'lib']), {
+            paths: ['src', 'lib'],
+            format: 'json',
+            configPath: null,
+            principles: ['SRP', 'DIP'],
+            maxViolations: 2
+        });
+    });
+
+    it('returns null for --help', () => {
+        assert.equal(parseArgs(['--help']), null);
+        assert.equal(parseArgs(['src', '-h']), null);
+    });
+
+    it('rejects invalid arguments', () => {
+        assert.throws(() => parseArgs([]), UsageError);
+        assert.throws(() => parseArgs(['--format', 'xml', 'src']), UsageError);
+        assert.throws(() => parseArgs(['--principles', 'LSP', 'src']), UsageError);
+        assert.throws(() => parseArgs(['--max-violations', '-1', 'src']), UsageError);
+        assert.throws(() => parseArgs(['--config']), UsageError);
+        assert.throws(() => parseArgs(['--verbose', 'src']), UsageError);
+    });
+});
+
+describe('stripJsonComments', () => {
+    it('removes comments and trailing commas but keeps string contents', () => {
+        const text = `{
+    // line comment
+    "url": "http://example.com/*not a comment*/",
+    /* block
+       comment */
+    "list": [1, 2,],
+}`;
+        assert.deepEqual(JSON.parse(stripJsonComments(text)), {
+            url: 'http://example.com/*not a comment*/',
+            list: [1, 2]
+        });
+    });
+});
+
+describe('cli with files', () => {
+    let directory: string;
+    let sourceDirectory: string;
+
+    const writeConfig = (name: string, settings: string) => {
+        const file = path.join(directory, name);
+        fs.writeFileSync(file, settings);
+        return file;
+    };
+
+    before(() => {
+        directory = fs.mkdtempSync(path.join(os.tmpdir(), 'semgrep-offline-solid-'));
+        sourceDirectory = path.join(directory, 'src');
+        fs.mkdirSync(path.join(sourceDirectory, 'node_modules'), { recursive: true });
+        fs.writeFileSync(path.join(sourceDirectory, 'report.py'), SPLIT_CLASS);
+        fs.writeFileSync(path.join(sourceDirectory, 'counter.py'), COHESIVE_CLASS);
+        fs.writeFileSync(path.join(sourceDirectory, 'node_modules', 'vendored.py'), SPLIT_CLASS);
+    });
+
+    after(() => {
+        fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    describe('loadConfig', () => {
+        it('reads prefixed and unprefixed settings from a JSONC file', () => {
+            const file = writeConfig('settings.json', `{
+    // thresholds
+    "semgrepOffline.srpLcom4Threshold": 0,
+    "ocpScoreThreshold": 6,
+    "semgrepOffline.dipScoreThreshold": -2,
+    "semgrepOffline.enableSRP": true,
+    "semgrepOffline.enableISP": true,
+    "semgrepOffline.languages": ["python", "typescript"],
+}`);
+            assert.deepEqual(loadConfig(file), {
+                thresholds: { ...DEFAULT_SOLID_THRESHOLDS, srpLcom4Threshold: 0, ocpScoreThreshold: 6 },
+                principles: ['SRP', 'ISP'],
+                languages: ['python', 'typescript']
+            });
+        });
+
+        it('runs every check when the config enables none', () => {
+            const file = writeConfig('empty.json', '{}');
+            assert.deepEqual(loadConfig(file).principles, ['SRP', 'OCP', 'DIP', 'ISP']);
+        });
+
+        it('rejects unreadable config files', () => {
+            assert.throws(() => loadConfig(path.join(directory, 'missing.json')), UsageError);
+            assert.throws(() => loadConfig(writeConfig('broken.json', '{ "enableSRP": ')), UsageError);
+        });
+    });
+
+    describe('main', () => {
+        it('exits with 1 when violations exceed the limit', () => {
+            const config = writeConfig('all.json', '{}');
+            const result = run(['--config', config, sourceDirectory]);
+            assert.equal(result.code, 1);
+            assert.match(result.stdout, /report\.py:1: \[solid-srp LCOM4\]/);
+            assert.match(result.stdout, /1 SOLID violation\(s\) in 1 file\(s\), 2 file\(s\) analyzed \(limit: 0\)/);
+        });
+
+        it('exits with 0 when violations are within the limit', () => {
+            const config = writeConfig('all.json', '{}');
+            assert.equal(run(['--config', config, '--max-violations', '1', sourceDirectory]).code, 0);
+            assert.equal(run(['--config', config, path.join(sourceDirectory, 'counter.py')]).code, 0);
+        });
+
+        it('exits with 2 on usage errors', () => {
+            const result = run(['--format', 'xml', sourceDirectory]);
+            assert.equal(result.code, 2);
+            assert.match(result.stderr, /Unknown format "xml"/);
+            assert.equal(run([path.join(directory, 'missing')]).code, 2);
+        });
+
+        it('prints usage for --help', () => {
+            const result = run(['--help']);
+            assert.equal(result.code, 0);
+            assert.match(result.stdout, /^Usage: semgrep-offline-solid/);
+        });
+
+        it('writes a JSON summary', () => {
+            const config = writeConfig('all.json', '{}');
+            const output = JSON.parse(run(['--config', config, '--format', 'json', '--principles', 'SRP,DIP', sourceDirectory]).stdout);
+            assert.deepEqual(output.principles, ['SRP', 'DIP']);
+            assert.deepEqual(output.summary, { files: 2, violations: 1, byPrinciple: { SRP: 1, DIP: 0 } });
+            assert.equal(output.results.length, 1);
+            assert.equal(output.results[0].line, 1);
+            assert.equal(output.results[0].code, 'LCOM4');
+        });
+
+        it('writes one SARIF run per principle', () => {
+            const config = writeConfig('all.json', '{}');
+            const log = JSON.parse(run(['--config', config, '--format', 'sarif', sourceDirectory]).stdout);
+            assert.equal(log.version, '2.1.0');
+            assert.deepEqual(log.runs.map((r: { tool: { driver: { name: string } } }) => r.tool.driver.name), ['solid-srp', 'solid-ocp', 'solid-dip', 'solid-isp']);
+            const [result] = log.runs[0].results;
+            assert.equal(result.ruleId, 'LCOM4');
+            assert.equal(result.locations[0].physicalLocation.region.startLine, 1);
+            assert.match(result.locations[0].physicalLocation.artifactLocation.uri, /report\.py$/);
+        });
+
+        it('applies a threshold of 0 from the config file', () => {
+            const config = writeConfig('strict.json', '{ "semgrepOffline.srpLcom4Threshold": 0 }');
+            const output = JSON.parse(run(['--config', config, '--format', 'json', '--principles', 'SRP', sourceDirectory]).stdout);
+            assert.equal(output.thresholds.srpLcom4Threshold, 0);
+            assert.equal(output.summary.violations, 2);
+        });
+    });
+});
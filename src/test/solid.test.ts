@@ -0,0 +1,201 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import {
+    DEFAULT_SOLID_THRESHOLDS,
+    SOLID_PRINCIPLES,
+    analyzeSingleResponsibility,
+    analyzeOpenClosed,
+    analyzeDependencyInversion,
+    analyzeInterfaceSegregation,
+    getSolidLanguageId,
+    resolveSolidThresholds
+} from '../solid';
+
+const SPLIT_CLASS = `class Report:
+    def __init__(self):
+        self.title = ''
+        self.conn = None
+
+    def render(self):
+        return self.title
+
+    def save(self):
+        return self.conn
+`;
+
+const COHESIVE_CLASS = `class Counter:
+    def __init__(self):
+        self.count = 0
+
+    def increment(self):
+        self.count += 1
+
+    def value(self):
+        return self.count
+`;
+
+const TYPE_SWITCH = `class Shapes:
+    def area(self, shape):
+        if isinstance(shape, Circle):
+            return 1
+        elif isinstance(shape, Square):
+            return 2
+        elif isinstance(shape, Triangle):
+            return 3
+        elif isinstance(shape, Hexagon):
+            return 4
+        return 0
+`;
+
+const CONCRETE_DEPENDENCIES = `class Service:
+    def __init__(self):
+        self.db = Database()
+        self.cache = RedisCache()
+        self.mailer = SmtpMailer()
+
+    def run(self):
+        client = HttpClient()
+        return client
+`;
+
+const INJECTED_DEPENDENCIES = `class Service:
+    def __init__(self, db, cache):
+        self.db = db
+        self.cache = cache
+
+    def run(self):
+        return self.db
+`;
+
+const FAT_INTERFACE = `from abc import ABC, abstractmethod
+
+class Repository(ABC):
+    @abstractmethod
+    def get(self): ...
+    @abstractmethod
+    def add(self): ...
+    @abstractmethod
+    def remove(self): ...
+    @abstractmethod
+    def update(self): ...
+    @abstractmethod
+    def count(self): ...
+    @abstractmethod
+    def clear(self): ...
+`;
+
+const STUB_IMPLEMENTATION = `class Robot(Worker):
+    def work(self):
+        return 1
+
+    def eat(self):
+        raise NotImplementedError()
+`;
+
+describe('analyzeSingleResponsibility', () => {
+    it('reports classes whose methods form disconnected groups', () => {
+        const result = analyzeSingleResponsibility(SPLIT_CLASS, 'python', 'report.py', 1);
+        assert.equal(result.classCount, 1);
+        assert.equal(result.metrics[0].lcom4Value, 2);
+        assert.deepEqual(result.metrics[0].connectedComponents, [['render'], ['save']]);
+        assert.deepEqual(result.findings.map(f => [f.source, f.code, f.line]), [['solid-srp', 'LCOM4', 0]]);
+    });
+
+    it('accepts cohesive classes', () => {
+        const result = analyzeSingleResponsibility(COHESIVE_CLASS, 'python', 'counter.py', 1);
+        assert.equal(result.metrics[0].lcom4Value, 1);
+        assert.equal(result.findings.length, 0);
+    });
+
+    it('honors solid: ignore comments with a reason', () => {
+        const suppressed = `# solid: ignore[SRP] split planned\n${SPLIT_CLASS}`;
+        assert.equal(analyzeSingleResponsibility(suppressed, 'python', 'report.py', 1).findings.length, 0);
+
+        const withoutReason = `# solid: ignore[SRP]\n${SPLIT_CLASS}`;
+        assert.equal(analyzeSingleResponsibility(withoutReason, 'python', 'report.py', 1).findings.length, 1);
+    });
+});
+
+describe('analyzeOpenClosed', () => {
+    it('reports methods that branch on types', () => {
+        const result = analyzeOpenClosed(TYPE_SWITCH, 'python', 'shapes.py', 4);
+        assert.equal(result.metrics[0].methodName, 'area');
+        assert.equal(result.metrics[0].classStartLine, 0);
+        assert.equal(result.metrics[0].violations.length, 4);
+        assert.deepEqual(result.findings.map(f => [f.source, f.code, f.line]), [['solid-ocp', 'OCP', 1]]);
+    });
+
+    it('only reports scores above the threshold', () => {
+        const result = analyzeOpenClosed(TYPE_SWITCH, 'python', 'shapes.py', 10);
+        assert.equal(result.metrics.length, 1);
+        assert.equal(result.findings.length, 0);
+    });
+});
+
+describe('analyzeDependencyInversion', () => {
+    it('reports classes that instantiate their dependencies', () => {
+        const result = analyzeDependencyInversion(CONCRETE_DEPENDENCIES, 'python', 'service.py', 3);
+        assert.equal(result.metrics[0].constructorInstantiations, 3);
+        assert.equal(result.metrics[0].methodInstantiations, 1);
+        assert.equal(result.metrics[0].dii, 0);
+        assert.deepEqual(result.findings.map(f => [f.source, f.code, f.line]), [['solid-dip', 'DIP', 0]]);
+    });
+
+    it('accepts injected dependencies', () => {
+        const result = analyzeDependencyInversion(INJECTED_DEPENDENCIES, 'python', 'service.py', 3);
+        assert.equal(result.metrics[0].dii, 1);
+        assert.equal(result.findings.length, 0);
+    });
+});
+
+describe('analyzeInterfaceSegregation', () => {
+    it('reports interfaces with more abstract methods than the threshold', () => {
+        const result = analyzeInterfaceSegregation(FAT_INTERFACE, 'python', 'repository.py', 5, 0.3);
+        assert.deepEqual(result.findings.map(f => [f.source, f.code, f.line]), [['solid-isp', 'ISP-FAT', 2]]);
+        assert.equal(analyzeInterfaceSegregation(FAT_INTERFACE, 'python', 'repository.py', 6, 0.3).findings.length, 0);
+    });
+
+    it('reports classes that stub out interface methods', () => {
+        const result = analyzeInterfaceSegregation(STUB_IMPLEMENTATION, 'python', 'robot.py', 5, 0.3);
+        assert.deepEqual(result.findings.map(f => [f.code, f.line]), [['ISP-STUB', 0]]);
+        assert.equal(result.findings[0].metrics.sir, 0.5);
+        assert.equal(analyzeInterfaceSegregation(STUB_IMPLEMENTATION, 'python', 'robot.py', 5, 0.6).findings.length, 0);
+    });
+});
+
+describe('SOLID_PRINCIPLES', () => {
+    it('runs each analyzer with its own threshold', () => {
+        const samples: Record<string, string> = {
+            SRP: SPLIT_CLASS,
+            OCP: TYPE_SWITCH,
+            DIP: CONCRETE_DEPENDENCIES,
+            ISP: STUB_IMPLEMENTATION
+        };
+        for (const principle of SOLID_PRINCIPLES) {
+            const analysis = principle.analyze(samples[principle.principle], 'python', 'sample.py', DEFAULT_SOLID_THRESHOLDS);
+            assert.equal(analysis.findings.length, 1, principle.principle);
+            assert.ok(analysis.findings.every(f => f.source === principle.source));
+            assert.ok(analysis.scores.some(s => s.violation), principle.principle);
+        }
+    });
+});
+
+describe('resolveSolidThresholds', () => {
+    it('keeps zero and falls back to the defaults for invalid values', () => {
+        const values: Record<string, unknown> = { srpLcom4Threshold: 0, ocpScoreThreshold: -1, dipScoreThreshold: '2', ispSirThreshold: 0.5 };
+        assert.deepEqual(resolveSolidThresholds(key => values[key]), {
+            ...DEFAULT_SOLID_THRESHOLDS,
+            srpLcom4Threshold: 0,
+            ispSirThreshold: 0.5
+        });
+    });
+});
+
+describe('getSolidLanguageId', () => {
+    it('maps file extensions to language ids', () => {
+        assert.equal(getSolidLanguageId('src/app.py'), 'python');
+        assert.equal(getSolidLanguageId('src/App.tsx'), 'typescriptreact');
+        assert.equal(getSolidLanguageId('src/app.ts'), 'typescript');
+        assert.equal(getSolidLanguageId('src/app.go'), undefined);
+    });
+});